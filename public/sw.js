@@ -0,0 +1,72 @@
+/**
+ * Service worker - Caches the app shell so the portal opens offline
+ *
+ * Page navigations go to the network first and fall back to the cached
+ * index.html; scripts, styles, fonts and images are served from the cache
+ * and refreshed in the background. API requests are never cached here:
+ * lessons are cached in IndexedDB by the app itself.
+ */
+
+const CACHE_NAME = 'tutor-portal-shell-v1';
+const SCOPE = new URL(self.registration.scope).pathname;
+const INDEX_URL = `${SCOPE}index.html`;
+const CACHED_DESTINATIONS = ['script', 'style', 'font', 'image', 'manifest'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll([SCOPE, INDEX_URL]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(INDEX_URL, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(INDEX_URL))
+    );
+    return;
+  }
+
+  if (CACHED_DESTINATIONS.includes(request.destination)) {
+    event.respondWith(
+      caches.open(CACHE_NAME).then((cache) =>
+        cache.match(request).then((cached) => {
+          const network = fetch(request)
+            .then((response) => {
+              if (response.ok) {
+                cache.put(request, response.clone());
+              }
+              return response;
+            })
+            .catch(() => cached);
+          return cached || network;
+        })
+      )
+    );
+  }
+});
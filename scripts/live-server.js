@@ -0,0 +1,150 @@
+/**
+ * Live updates stand-in server
+ *
+ * Streams fake lesson events over Server-Sent Events so the dashboard's live
+ * updates can be developed and tested without the real backend:
+ *
+ *   npm run live-server
+ *   VITE_LIVE_UPDATES_URL=http://localhost:8787/events npm run dev
+ *
+ * Every few seconds it creates a new available class, has "another tutor" take
+ * an available class, or reschedules one. It starts from the available classes
+ * in the mock data (L007-L009), so taken events are visible in mock mode.
+ *
+ * Like the real stream, it expects a `ticket` query parameter and accepts each
+ * ticket once. Tickets are not checked against the API, so any unused one works.
+ *
+ * Environment variables:
+ * - LIVE_PORT: port to listen on (default 8787)
+ * - LIVE_INTERVAL_MS: time between events in milliseconds (default 5000)
+ */
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.LIVE_PORT) || 8787;
+const INTERVAL_MS = Number(process.env.LIVE_INTERVAL_MS) || 5000;
+const KEEP_ALIVE_MS = 15000;
+
+const SUBJECTS = [
+  'Minecraft Game Design - Level 1',
+  'Roblox Coding Basics',
+  'Python for Kids - Introduction',
+  'Website Design for Beginners',
+];
+const STUDENTS = ['Ethan', 'Ava', 'Lucas', 'Chloe', 'Aaron', 'Emma', 'Noah', 'Mia'];
+const OTHER_TUTORS = ['Daniel Lim', 'Priya Nair', 'Kenji Sato'];
+
+/** Available classes the server knows about, starting with the mock data */
+const available = new Map(
+  [
+    { id: 'L007', date: '2025-11-12T11:00:00Z', durationMinutes: 60, subject: 'Python for Kids - Game Projects' },
+    { id: 'L008', date: '2025-11-13T17:00:00Z', durationMinutes: 90, subject: 'Roblox Game Design - Level 1' },
+    { id: 'L009', date: '2025-11-14T10:00:00Z', durationMinutes: 60, subject: 'Minecraft AI Coding Adventure' },
+  ].map((lesson) => [
+    lesson.id,
+    { ...lesson, timezone: 'Asia/Singapore', type: 'Available', students: [], tutor: null, status: 'Available' },
+  ])
+);
+
+/** @type {Set<import('node:http').ServerResponse>} */
+const clients = new Set();
+/** Tickets that have already opened a stream */
+const usedTickets = new Set();
+let nextId = 1;
+
+const pick = (items) => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Send a named event to every connected client
+ */
+const broadcast = (type, payload) => {
+  const message = `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+  clients.forEach((client) => client.write(message));
+  console.log(`[live] ${type} ${JSON.stringify(payload)} -> ${clients.size} client(s)`);
+};
+
+const createLesson = () => {
+  const start = new Date();
+  start.setUTCDate(start.getUTCDate() + 1 + Math.floor(Math.random() * 14));
+  start.setUTCHours(1 + Math.floor(Math.random() * 10), Math.random() < 0.5 ? 0 : 30, 0, 0);
+  const lesson = {
+    id: `LIVE${String(nextId++).padStart(4, '0')}`,
+    date: start.toISOString(),
+    durationMinutes: pick([45, 60, 90]),
+    timezone: 'Asia/Singapore',
+    type: 'Available',
+    subject: pick(SUBJECTS),
+    students: [pick(STUDENTS)],
+    tutor: null,
+    status: 'Available',
+  };
+  available.set(lesson.id, lesson);
+  broadcast('lesson.created', { lesson });
+};
+
+const takeLesson = () => {
+  const lesson = pick([...available.values()]);
+  available.delete(lesson.id);
+  broadcast('lesson.taken', { lessonId: lesson.id, tutor: pick(OTHER_TUTORS) });
+};
+
+const rescheduleLesson = () => {
+  const lesson = pick([...available.values()]);
+  const changed = { ...lesson, date: new Date(new Date(lesson.date).getTime() + 30 * 60 * 1000).toISOString() };
+  available.set(changed.id, changed);
+  broadcast('lesson.changed', { lesson: changed });
+};
+
+const emitRandomEvent = () => {
+  if (clients.size === 0) {
+    return;
+  }
+  const roll = Math.random();
+  if (available.size === 0 || roll < 0.4) {
+    createLesson();
+  } else if (roll < 0.8) {
+    takeLesson();
+  } else {
+    rescheduleLesson();
+  }
+};
+
+const server = createServer((request, response) => {
+  const { pathname, searchParams } = new URL(request.url || '/', `http://${request.headers.host}`);
+  if (request.method !== 'GET' || pathname !== '/events') {
+    response.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+    response.end();
+    return;
+  }
+  const ticket = searchParams.get('ticket');
+  if (!ticket || usedTickets.has(ticket)) {
+    response.writeHead(401, { 'Access-Control-Allow-Origin': '*' });
+    response.end();
+    return;
+  }
+  usedTickets.add(ticket);
+
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  // Ask EventSource to retry after 3 seconds if the connection drops
+  response.write('retry: 3000\n\n');
+  clients.add(response);
+  console.log(`[live] client connected (${clients.size})`);
+
+  request.on('close', () => {
+    clients.delete(response);
+    console.log(`[live] client disconnected (${clients.size})`);
+  });
+});
+
+setInterval(emitRandomEvent, INTERVAL_MS);
+// Comments keep proxies from closing idle connections
+setInterval(() => clients.forEach((client) => client.write(': keep-alive\n\n')), KEEP_ALIVE_MS);
+
+server.listen(PORT, () => {
+  console.log(`[live] streaming lesson events at http://localhost:${PORT}/events every ${INTERVAL_MS}ms`);
+});
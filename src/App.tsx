@@ -2,15 +2,36 @@ import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { useAuthStore } from './store/authStore';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
+import Forbidden from './pages/Forbidden';
+import LessonDetail from './pages/LessonDetail';
+import Availability from './pages/Availability';
+import Analytics from './pages/Analytics';
+import Earnings from './pages/Earnings';
+import Settings from './pages/Settings';
+import StudentProfile from './pages/StudentProfile';
 import ErrorBoundary from './components/ErrorBoundary';
+import { Permission } from './types';
+import { hasPermission } from './utils';
 
 /**
  * PrivateRoute component - Protects routes that require authentication
- * @param children - Child components to render if authenticated
+ * and, optionally, a permission
+ *
+ * Unauthenticated users are redirected to the login page. Authenticated users
+ * without the required permission see the 403 page.
+ *
+ * @param children - Child components to render if authenticated and permitted
+ * @param permission - Optional permission required to view the route
  */
-function PrivateRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuthStore();
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
+function PrivateRoute({ children, permission }: { children: React.ReactNode; permission?: Permission }) {
+  const { isAuthenticated, user } = useAuthStore();
+  if (!isAuthenticated) {
+    return <Navigate to="/login" />;
+  }
+  if (permission && !hasPermission(user, permission)) {
+    return <Forbidden />;
+  }
+  return <>{children}</>;
 }
 
 /**
@@ -31,6 +52,55 @@ function App() {
               </PrivateRoute>
             }
           />
+          <Route
+            path="/lessons/:id"
+            element={
+              <PrivateRoute>
+                <LessonDetail />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/students/:name"
+            element={
+              <PrivateRoute>
+                <StudentProfile />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/availability"
+            element={
+              <PrivateRoute permission="takeClass">
+                <Availability />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/analytics"
+            element={
+              <PrivateRoute>
+                <Analytics />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/earnings"
+            element={
+              <PrivateRoute permission="takeClass">
+                <Earnings />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/settings"
+            element={
+              <PrivateRoute>
+                <Settings />
+              </PrivateRoute>
+            }
+          />
+          <Route path="/forbidden" element={<Forbidden />} />
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
         </Routes>
       </Router>
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Lesson, LessonAttendance } from '../types';
+import { ATTENDANCE_OPTIONS } from '../constants';
+
+interface AttendancePanelProps {
+  lesson: Lesson;
+  onSave: (attendance: LessonAttendance) => Promise<void>;
+}
+
+/**
+ * AttendancePanel component - Marks each student of a lesson present, late or absent
+ *
+ * Starts from the attendance already recorded on the lesson. Changes are kept
+ * locally until saved; errors from saving are shown inside the panel.
+ *
+ * @param lesson - The lesson to take attendance for
+ * @param onSave - Callback that saves the attendance; should throw on failure
+ */
+const AttendancePanel = ({ lesson, onSave }: AttendancePanelProps) => {
+  const [draft, setDraft] = useState<LessonAttendance>(() => ({ ...lesson.attendance }));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Pick up attendance saved elsewhere (e.g. another tab or a live update)
+  useEffect(() => {
+    setDraft({ ...lesson.attendance });
+  }, [lesson.attendance]);
+
+  const markedCount = lesson.students.filter((student) => draft[student]).length;
+  const hasChanges = lesson.students.some((student) => draft[student] !== lesson.attendance?.[student]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(draft);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save attendance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="pt-4 mb-6 border-t border-gray-200 dark:border-gray-700" aria-labelledby="attendance-heading">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 id="attendance-heading" className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100">
+          Attendance
+          <span className="ml-2 text-xs sm:text-sm font-normal text-gray-500 dark:text-gray-400">
+            {markedCount}/{lesson.students.length} marked
+          </span>
+        </h2>
+        <button
+          type="button"
+          onClick={() => setDraft(Object.fromEntries(lesson.students.map((student) => [student, 'present'])))}
+          className="text-xs sm:text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Mark all present
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {lesson.students.map((student) => (
+          <li key={student} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-2.5">
+            <span className="text-sm sm:text-base text-gray-800 dark:text-gray-100">{student}</span>
+            <div className="flex gap-2" role="radiogroup" aria-label={`Attendance for ${student}`}>
+              {ATTENDANCE_OPTIONS.map((option) => {
+                const selected = draft[student] === option.status;
+                return (
+                  <button
+                    key={option.status}
+                    type="button"
+                    role="radio"
+                    aria-checked={selected}
+                    onClick={() => setDraft((current) => ({ ...current, [student]: option.status }))}
+                    className={`px-3 py-1 rounded-full border text-xs sm:text-sm font-medium transition ${
+                      selected
+                        ? option.activeClassName
+                        : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end mt-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!hasChanges || saving}
+          className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save attendance'}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default AttendancePanel;
@@ -0,0 +1,117 @@
+interface BarChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  /** Accessible description of the chart */
+  title: string;
+  formatValue?: (value: number) => string;
+  /** SVG fill class for the bars */
+  barClassName?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 20, right: 8, bottom: 28, left: 40 };
+const GRID_LINES = 4;
+
+/**
+ * Round a maximum up to a readable axis value (1, 2 or 5 times a power of ten)
+ */
+const getAxisMax = (max: number): number => {
+  if (max <= 0) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  const step = [1, 2, 5, 10].find((multiple) => multiple * magnitude >= max) || 10;
+  return step * magnitude;
+};
+
+/**
+ * BarChart component - Vertical bar chart drawn as SVG
+ *
+ * Bars are labelled with their value above and their label below, over
+ * horizontal grid lines. The chart scales to the width of its container.
+ *
+ * @param data - Bars to draw, in order
+ * @param title - Accessible description of the chart
+ * @param formatValue - Optional formatter for values and axis ticks (default: the number as is)
+ * @param barClassName - Optional SVG fill class for the bars
+ */
+const BarChart = ({ data, title, formatValue = String, barClassName = 'fill-indigo-500' }: BarChartProps) => {
+  const axisMax = getAxisMax(Math.max(0, ...data.map((datum) => datum.value)));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(data.length, 1);
+  const barWidth = Math.min(slot * 0.6, 48);
+  const y = (value: number) => PADDING.top + plotHeight - (value / axisMax) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <title>{title}</title>
+      {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+        const value = (axisMax / GRID_LINES) * index;
+        return (
+          <g key={index}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(value)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {formatValue(value)}
+            </text>
+          </g>
+        );
+      })}
+      {data.map((datum, index) => {
+        const x = PADDING.left + slot * index + (slot - barWidth) / 2;
+        const top = y(datum.value);
+        return (
+          <g key={datum.label}>
+            <rect
+              x={x}
+              y={top}
+              width={barWidth}
+              height={PADDING.top + plotHeight - top}
+              rx={3}
+              className={barClassName}
+            >
+              <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+            </rect>
+            {datum.value > 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={top - 4}
+                textAnchor="middle"
+                className="fill-gray-700 dark:fill-gray-200 text-[11px] font-medium"
+              >
+                {formatValue(datum.value)}
+              </text>
+            )}
+            <text
+              x={x + barWidth / 2}
+              y={HEIGHT - 8}
+              textAnchor="middle"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {datum.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
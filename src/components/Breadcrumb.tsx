@@ -1,4 +1,5 @@
-import { Link, useLocation } from 'react-router-dom';
+import { Link, matchPath, useLocation } from 'react-router-dom';
+import { useLessonStore } from '../store/lessonStore';
 
 interface BreadcrumbItem {
   label: string;
@@ -13,6 +14,7 @@ interface BreadcrumbItem {
  */
 const Breadcrumb = () => {
   const location = useLocation();
+  const lessons = useLessonStore((state) => state.lessons);
 
   // Define breadcrumb mapping
   const getBreadcrumbs = (): BreadcrumbItem[] => {
@@ -25,6 +27,55 @@ const Breadcrumb = () => {
       ];
     }
     
+    if (pathname === '/availability') {
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Availability' },
+      ];
+    }
+    
+    if (pathname === '/analytics') {
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Analytics' },
+      ];
+    }
+    
+    if (pathname === '/earnings') {
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Earnings' },
+      ];
+    }
+    
+    if (pathname === '/settings') {
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Settings' },
+      ];
+    }
+    
+    const lessonMatch = matchPath('/lessons/:id', pathname);
+    if (lessonMatch) {
+      // Show the subject once the lesson is loaded, the id until then
+      const lessonId = lessonMatch.params.id || '';
+      const lesson = lessons.find((l) => l.id === lessonId);
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Lessons', path: '/dashboard' },
+        { label: lesson?.subject || lessonId },
+      ];
+    }
+    
+    const studentMatch = matchPath('/students/:name', pathname);
+    if (studentMatch) {
+      return [
+        { label: 'Home', path: '/dashboard' },
+        { label: 'Students' },
+        { label: studentMatch.params.name || '' },
+      ];
+    }
+    
     // Default breadcrumb
     return [
       { label: 'Home', path: '/dashboard' },
@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { useBusyStore } from '../store/busyStore';
+import { formatDate } from '../utils';
+
+interface BusyTimesPanelProps {
+  clashCount: number;
+}
+
+/**
+ * BusyTimesPanel component - Imports busy times from the tutor's personal calendar
+ *
+ * The tutor uploads an .ics file; its events are kept locally and used to flag
+ * available lessons that clash with them. Clashing lessons can also be hidden.
+ *
+ * @param clashCount - Number of available lessons that clash with the busy times
+ */
+const BusyTimesPanel = ({ clashCount }: BusyTimesPanelProps) => {
+  const { events, fileName, importedAt, hideConflicting, importCalendar, clearBusyTimes, setHideConflicting } =
+    useBusyStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so the same file can be picked again after editing it
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError('');
+    setImporting(true);
+    try {
+      await importCalendar(file);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import calendar');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-4 sm:mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="min-w-0 text-sm text-gray-600 dark:text-gray-400">
+          {fileName ? (
+            <>
+              <p className="font-medium text-gray-800 dark:text-gray-200 break-words">
+                Busy times: {events.length} event{events.length === 1 ? '' : 's'} from {fileName}
+              </p>
+              <p className="text-xs sm:text-sm">
+                {importedAt && `Imported ${formatDate(importedAt)} · `}
+                {clashCount} available lesson{clashCount === 1 ? '' : 's'} clash{clashCount === 1 ? 'es' : ''} with them
+              </p>
+            </>
+          ) : (
+            <p>Import your personal calendar (.ics) to flag available lessons that clash with your other commitments.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3 flex-shrink-0">
+          {fileName && (
+            <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideConflicting}
+                onChange={(e) => setHideConflicting(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+              />
+              Hide clashing lessons
+            </label>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={importing}
+            className="px-3 sm:px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-medium text-xs sm:text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importing...' : fileName ? 'Replace .ics' : 'Import .ics'}
+          </button>
+          {fileName && (
+            <button
+              type="button"
+              onClick={clearBusyTimes}
+              className="px-3 sm:px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-xs sm:text-sm"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BusyTimesPanel;
@@ -0,0 +1,74 @@
+import { Lesson } from '../types';
+import { SCHEDULING_POLICY } from '../constants';
+import { formatLessonDate, formatLessonTime } from '../utils';
+import Modal from './Modal';
+
+interface ConflictDialogProps {
+  lesson: Lesson;
+  conflicts: Lesson[];
+  onOverride: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * ConflictDialog component - Warns that taking a class would double-book the tutor
+ *
+ * Lists the tutor's lessons that clash with the class. The tutor can cancel or,
+ * when SCHEDULING_POLICY allows it, take the class anyway.
+ *
+ * @param lesson - The class the tutor is trying to take
+ * @param conflicts - The tutor's lessons that overlap it
+ * @param onOverride - Called when the tutor chooses to take the class anyway
+ * @param onCancel - Called when the dialog is dismissed
+ */
+const ConflictDialog = ({ lesson, conflicts, onOverride, onCancel }: ConflictDialogProps) => {
+  return (
+    <Modal title="Schedule clash" onClose={onCancel}>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        <span className="font-medium text-gray-800 dark:text-gray-200">{lesson.subject}</span>
+        {' '}on {formatLessonDate(lesson)} {formatLessonTime(lesson)} overlaps with:
+      </p>
+
+      <ul className="space-y-2 mb-4">
+        {conflicts.map((conflict) => (
+          <li
+            key={conflict.id}
+            className="px-3 py-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm"
+          >
+            <p className="font-medium text-amber-900 dark:text-amber-200 break-words">{conflict.subject}</p>
+            <p className="text-xs text-amber-800 dark:text-amber-300">
+              {formatLessonDate(conflict)} {formatLessonTime(conflict)}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      {!SCHEDULING_POLICY.ALLOW_OVERLAP_OVERRIDE && (
+        <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Overlapping classes cannot be taken. Release the clashing lesson first if you want this slot.
+        </p>
+      )}
+
+      <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 sm:gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-sm"
+        >
+          Cancel
+        </button>
+        {SCHEDULING_POLICY.ALLOW_OVERLAP_OVERRIDE && (
+          <button
+            type="button"
+            onClick={onOverride}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition font-medium text-sm"
+          >
+            Take anyway
+          </button>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ConflictDialog;
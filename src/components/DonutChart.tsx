@@ -0,0 +1,97 @@
+interface DonutChartSegment {
+  label: string;
+  value: number;
+  /** SVG fill class for the segment */
+  className: string;
+}
+
+interface DonutChartProps {
+  segments: DonutChartSegment[];
+  /** Accessible description of the chart */
+  title: string;
+  formatValue?: (value: number) => string;
+}
+
+const SIZE = 160;
+const RADIUS = 70;
+const INNER_RADIUS = 44;
+
+/**
+ * Point on a circle around the chart center, starting at 12 o'clock
+ */
+const polar = (radius: number, angle: number) => ({
+  x: SIZE / 2 + radius * Math.sin(angle),
+  y: SIZE / 2 - radius * Math.cos(angle),
+});
+
+/**
+ * SVG path for a ring segment between two angles
+ */
+const getSegmentPath = (startAngle: number, endAngle: number): string => {
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  const outerStart = polar(RADIUS, startAngle);
+  const outerEnd = polar(RADIUS, endAngle);
+  const innerEnd = polar(INNER_RADIUS, endAngle);
+  const innerStart = polar(INNER_RADIUS, startAngle);
+  return [
+    `M${outerStart.x},${outerStart.y}`,
+    `A${RADIUS},${RADIUS} 0 ${largeArc} 1 ${outerEnd.x},${outerEnd.y}`,
+    `L${innerEnd.x},${innerEnd.y}`,
+    `A${INNER_RADIUS},${INNER_RADIUS} 0 ${largeArc} 0 ${innerStart.x},${innerStart.y}`,
+    'Z',
+  ].join(' ');
+};
+
+/**
+ * DonutChart component - Ring chart drawn as SVG, with a legend
+ *
+ * Each segment's share of the total is shown in the legend next to its value.
+ *
+ * @param segments - Segments to draw, clockwise from the top
+ * @param title - Accessible description of the chart
+ * @param formatValue - Optional formatter for values in the legend (default: the number as is)
+ */
+const DonutChart = ({ segments, title, formatValue = String }: DonutChartProps) => {
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+  let angle = 0;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4 sm:gap-6">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-36 h-36 flex-shrink-0" role="img" aria-label={title}>
+        <title>{title}</title>
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={(RADIUS + INNER_RADIUS) / 2} fill="none" strokeWidth={RADIUS - INNER_RADIUS} className="stroke-gray-100 dark:stroke-gray-700" />
+        {total > 0 &&
+          segments
+            .filter((segment) => segment.value > 0)
+            .map((segment) => {
+              const sweep = (segment.value / total) * Math.PI * 2;
+              const startAngle = angle;
+              angle += sweep;
+              // A full ring can't be drawn as a single arc, so stop just short of it
+              const endAngle = sweep >= Math.PI * 2 ? startAngle + Math.PI * 2 - 0.0001 : angle;
+              return (
+                <path key={segment.label} d={getSegmentPath(startAngle, endAngle)} className={segment.className}>
+                  <title>{`${segment.label}: ${formatValue(segment.value)}`}</title>
+                </path>
+              );
+            })}
+      </svg>
+      <ul className="space-y-1.5 text-sm w-full">
+        {segments.map((segment) => (
+          <li key={segment.label} className="flex items-center gap-2">
+            <svg className="w-3 h-3 flex-shrink-0" viewBox="0 0 12 12" aria-hidden="true">
+              <rect width={12} height={12} rx={3} className={segment.className} />
+            </svg>
+            <span className="flex-1 text-gray-700 dark:text-gray-300">{segment.label}</span>
+            <span className="text-gray-800 dark:text-gray-100 font-medium">{formatValue(segment.value)}</span>
+            <span className="w-10 text-right text-xs text-gray-500 dark:text-gray-400">
+              {total > 0 ? `${Math.round((segment.value / total) * 100)}%` : '—'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DonutChart;
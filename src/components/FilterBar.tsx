@@ -1,26 +1,85 @@
 import { useState, useMemo } from 'react';
-import { format, subMonths, addMonths, startOfMonth } from 'date-fns';
-import { MONTH_NAMES, MONTH_ABBREVIATIONS, MONTH_FILTER, DATE_FILTER } from '../constants';
+import { format, subMonths, addMonths, startOfMonth, parseISO } from 'date-fns';
+import {
+  MONTH_NAMES,
+  MONTH_ABBREVIATIONS,
+  MONTH_FILTER,
+  DATE_FILTER,
+  EMPTY_LESSON_FACETS,
+  STATUS_FACETS,
+  STUDENT_COUNT_RANGES,
+  SUBJECT_FAMILIES,
+} from '../constants';
+import { LessonFacets } from '../types';
+import { hasActiveFacets } from '../utils';
 
 interface FilterBarProps {
-  onMonthChange: (month: number) => void;
-  onDateRangeChange: (start: Date | null, end: Date | null) => void;
-  selectedMonth: number | null;
+  onMonthChange: (month: string) => void;
+  onDateRangeChange: (start: Date, end: Date) => void;
+  onClearFilters: () => void;
+  selectedMonth: string | null; // Month key in 'yyyy-MM' format
+  hasDateRange?: boolean;
   availableMonths?: Set<string>; // Set of month keys in 'yyyy-MM' format
+  fitsAvailability?: boolean;
+  onFitsAvailabilityChange?: (fits: boolean) => void;
+  facets?: LessonFacets;
+  onFacetsChange?: (facets: LessonFacets) => void;
 }
 
 /**
- * FilterBar component for filtering lessons by month and date range
+ * Add a value to a facet selection, or remove it if it is already selected
+ */
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+/**
+ * FacetChip - A toggleable filter chip
+ */
+const FacetChip = ({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={selected}
+    className={`px-2.5 sm:px-3 py-1 rounded-full text-xs sm:text-sm transition ${
+      selected
+        ? 'bg-indigo-600 dark:bg-indigo-500 text-white'
+        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+/**
+ * FilterBar component for filtering lessons by month, date range, search text and facets
  * 
- * Displays a list of month buttons (5 months back + current + 6 months forward)
- * and a date range picker for custom date filtering.
+ * Displays a list of month buttons (5 months back + current + 6 months forward),
+ * a date range picker for custom date filtering, a search box and facet chips
+ * for subject family, status and number of students.
  * 
- * @param onMonthChange - Callback when a month is selected (receives month index 0-11, or -1 to clear)
- * @param onDateRangeChange - Callback when date range is applied (receives start and end dates, or null to clear)
- * @param selectedMonth - Currently selected month index (0-11) or null if none selected
+ * @param onMonthChange - Callback when a month is selected (receives the yyyy-MM month key)
+ * @param onDateRangeChange - Callback when date range is applied (receives start and end dates)
+ * @param onClearFilters - Callback to clear every filter at once
+ * @param selectedMonth - Currently selected month key (yyyy-MM) or null if none selected
+ * @param hasDateRange - Whether a date range is applied (e.g. a day picked in the calendar view)
  * @param availableMonths - Set of month keys (yyyy-MM format) that have lesson data
+ * @param fitsAvailability - Whether available lessons are limited to the tutor's weekly availability
+ * @param onFitsAvailabilityChange - Optional callback for the "Fits my availability" toggle; the toggle is hidden without it
+ * @param facets - Current search text and facet selections
+ * @param onFacetsChange - Optional callback when the search or facets change; search and facets are hidden without it
  */
-const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableMonths = new Set() }: FilterBarProps) => {
+const FilterBar = ({
+  onMonthChange,
+  onDateRangeChange,
+  onClearFilters,
+  selectedMonth,
+  hasDateRange = false,
+  availableMonths = new Set(),
+  fitsAvailability = false,
+  onFitsAvailabilityChange,
+  facets = EMPTY_LESSON_FACETS,
+  onFacetsChange,
+}: FilterBarProps) => {
   const [showDateRange, setShowDateRange] = useState(false);
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
@@ -36,7 +95,7 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
       const date = subMonths(currentMonth, i);
       const year = date.getFullYear();
       const monthIndex = date.getMonth();
-      const monthKey = format(date, 'yyyy-MM');
+      const monthKey = format(date, DATE_FILTER.MONTH_FORMAT);
       
       months.push({
         monthIndex,
@@ -52,7 +111,7 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
       const date = addMonths(currentMonth, i);
       const year = date.getFullYear();
       const monthIndex = date.getMonth();
-      const monthKey = format(date, 'yyyy-MM');
+      const monthKey = format(date, DATE_FILTER.MONTH_FORMAT);
       
       months.push({
         monthIndex,
@@ -66,14 +125,13 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
     return months;
   }, []);
 
-  const handleMonthSelect = (indexInLast12: number, monthKey: string) => {
+  const handleMonthSelect = (monthKey: string) => {
     // Check if this month has data
     if (!availableMonths.has(monthKey)) {
       return; // Don't allow selection if no data
     }
     
-    // Pass the index in last 12 months array (0-11)
-    onMonthChange(indexInLast12);
+    onMonthChange(monthKey);
     setShowDateRange(false);
     setStartDate('');
     setEndDate('');
@@ -81,14 +139,14 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
 
   const handleDateRangeApply = () => {
     if (startDate && endDate) {
-      onDateRangeChange(new Date(startDate), new Date(endDate));
+      // parseISO reads date-only values as local midnight, unlike new Date()
+      onDateRangeChange(parseISO(startDate), parseISO(endDate));
       setShowDateRange(false);
     }
   };
 
   const handleClearFilters = () => {
-    onMonthChange(DATE_FILTER.CLEAR_MONTH_INDEX);
-    onDateRangeChange(null, null);
+    onClearFilters();
     setStartDate('');
     setEndDate('');
     setShowDateRange(false);
@@ -97,19 +155,65 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-6">
       <div className="space-y-4">
+        {onFacetsChange && (
+          <div className="space-y-3">
+            <input
+              type="search"
+              value={facets.search}
+              onChange={(e) => onFacetsChange({ ...facets, search: e.target.value })}
+              placeholder="Search subject, student or tutor"
+              aria-label="Search lessons"
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none placeholder-gray-500 dark:placeholder-gray-400"
+            />
+            <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
+              <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mr-1">Subject:</span>
+              {SUBJECT_FAMILIES.map(({ family }) => (
+                <FacetChip
+                  key={family}
+                  label={family}
+                  selected={facets.subjects.includes(family)}
+                  onClick={() => onFacetsChange({ ...facets, subjects: toggleValue(facets.subjects, family) })}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
+              <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mr-1">Status:</span>
+              {STATUS_FACETS.map((status) => (
+                <FacetChip
+                  key={status}
+                  label={status}
+                  selected={facets.statuses.includes(status)}
+                  onClick={() => onFacetsChange({ ...facets, statuses: toggleValue(facets.statuses, status) })}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
+              <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mr-1">Students:</span>
+              {STUDENT_COUNT_RANGES.map(({ range, label }) => (
+                <FacetChip
+                  key={range}
+                  label={label}
+                  selected={facets.studentCounts.includes(range)}
+                  onClick={() => onFacetsChange({ ...facets, studentCounts: toggleValue(facets.studentCounts, range) })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="w-full">
           <span className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 sm:mb-0 sm:inline sm:mr-2">
             Filter by Month:
           </span>
           <div className="flex gap-1.5 sm:gap-2 flex-wrap mt-2 sm:mt-0 sm:inline-flex">
-            {last12Months.map((monthInfo, index) => {
+            {last12Months.map((monthInfo) => {
               const hasData = availableMonths.has(monthInfo.monthKey);
-              const isSelected = selectedMonth === index;
+              const isSelected = selectedMonth === monthInfo.monthKey;
               
               return (
                 <button
                   key={monthInfo.monthKey}
-                  onClick={() => handleMonthSelect(index, monthInfo.monthKey)}
+                  onClick={() => handleMonthSelect(monthInfo.monthKey)}
                   disabled={!hasData}
                   className={`px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm transition ${
                     !hasData
@@ -136,7 +240,22 @@ const FilterBar = ({ onMonthChange, onDateRangeChange, selectedMonth, availableM
             Date Range
           </button>
 
-          {(selectedMonth !== null || startDate || endDate) && (
+          {onFitsAvailabilityChange && (
+            <button
+              onClick={() => onFitsAvailabilityChange(!fitsAvailability)}
+              aria-pressed={fitsAvailability}
+              title="Only show available lessons inside your weekly availability"
+              className={`px-3 sm:px-4 py-2 rounded-lg transition text-xs sm:text-sm font-medium ${
+                fitsAvailability
+                  ? 'bg-emerald-600 dark:bg-emerald-500 text-white'
+                  : 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 hover:bg-emerald-100 dark:hover:bg-emerald-900/50'
+              }`}
+            >
+              Fits my availability
+            </button>
+          )}
+
+          {(selectedMonth !== null || hasDateRange || startDate || endDate || fitsAvailability || hasActiveFacets(facets)) && (
             <button
               onClick={handleClearFilters}
               className="px-3 sm:px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition text-xs sm:text-sm font-medium"
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { BACKGROUND_REFRESH } from '../constants';
+
+interface LastUpdatedProps {
+  lastUpdated: string | null;
+  refreshing: boolean;
+  onRefresh: () => void;
+}
+
+/**
+ * LastUpdated component - Subtle "updated x min ago" label with a refresh button
+ *
+ * The label re-renders on a timer so the relative time stays current.
+ *
+ * @param lastUpdated - When the lessons were last loaded (ISO 8601), or null
+ * @param refreshing - Whether a background refresh is in flight
+ * @param onRefresh - Callback to refresh now
+ */
+const LastUpdated = ({ lastUpdated, refreshing, onRefresh }: LastUpdatedProps) => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setTick((tick) => tick + 1), BACKGROUND_REFRESH.LABEL_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!lastUpdated) {
+    return null;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+      {refreshing ? 'Updating...' : `Updated ${formatDistanceToNow(new Date(lastUpdated), { addSuffix: true })}`}
+      <button
+        type="button"
+        onClick={onRefresh}
+        disabled={refreshing}
+        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:cursor-not-allowed"
+        aria-label="Refresh lessons"
+        title="Refresh lessons"
+      >
+        <svg
+          className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          />
+        </svg>
+      </button>
+    </span>
+  );
+};
+
+export default LastUpdated;
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useThemeStore } from '../store/themeStore';
+import { useLessonReminders } from '../hooks/useLessonReminders';
+import Sidebar from './Sidebar';
+import Breadcrumb from './Breadcrumb';
+import OfflineBanner from './OfflineBanner';
+
+interface LayoutProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Layout component - Shared page chrome for authenticated pages
+ *
+ * Renders the top navigation bar (logo, theme toggle, user and logout),
+ * the responsive sidebar, the breadcrumb and the offline banner, with the page content below.
+ * Also applies the selected theme to the document and schedules lesson reminders.
+ *
+ * @param children - Page content rendered in the main area
+ */
+const Layout = ({ children }: LayoutProps) => {
+  const { user, logout } = useAuthStore();
+  const { theme, toggleTheme } = useThemeStore();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  useLessonReminders();
+
+  // Apply theme to document
+  useEffect(() => {
+    const root = document.documentElement;
+    if (theme === 'dark') {
+      root.classList.add('dark');
+    } else {
+      root.classList.remove('dark');
+    }
+  }, [theme]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
+      {/* Top Navigation Bar */}
+      <nav className="bg-white dark:bg-gray-800 shadow-sm dark:shadow-gray-900/50 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+        <div className="px-3 sm:px-4 lg:px-8">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0 py-3 sm:py-0 sm:h-16">
+            <div className="flex items-center gap-3 w-full sm:w-auto">
+              {/* Hamburger menu button for mobile */}
+              <button
+                onClick={() => setSidebarOpen(true)}
+                className="lg:hidden p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+                aria-label="Open menu"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <div className="flex items-center gap-2 sm:gap-3">
+                {/* Logo */}
+                <svg
+                  className="w-8 h-8 sm:w-10 sm:h-10 text-indigo-600 dark:text-indigo-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"
+                  />
+                </svg>
+                <h1 className="text-base sm:text-lg lg:text-xl font-bold text-gray-800 dark:text-white">
+                  Champ Code Academy
+                </h1>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 sm:gap-4 w-full sm:w-auto">
+              {/* Theme Toggle Button */}
+              <button
+                onClick={toggleTheme}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+                aria-label="Toggle theme"
+              >
+                {theme === 'light' ? (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z"
+                    />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z"
+                    />
+                  </svg>
+                )}
+              </button>
+              
+              <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-300 truncate flex-1 sm:flex-none">
+                Welcome, {user?.name}
+              </span>
+              <button
+                onClick={logout}
+                className="px-3 sm:px-4 py-1.5 sm:py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Content area with sidebar and main content */}
+      <div className="flex flex-1 min-h-0">
+        {/* Sidebar */}
+        <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
+
+        {/* Main content area */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Main Content */}
+          <main className="flex-1 max-w-7xl mx-auto w-full px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8">
+            <Breadcrumb />
+            <OfflineBanner />
+            {children}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Layout;
@@ -1,37 +1,57 @@
-import { Lesson } from '../types';
-import { formatDate, formatTime } from '../utils';
+import { Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { BusyBlock, Lesson } from '../types';
+import { LESSON_STATUS_COLORS } from '../constants';
+import {
+  canReleaseLesson,
+  formatLessonDate,
+  formatLessonTime,
+  formatTime,
+  getAttendanceSummary,
+  getReleaseCutoffMessage,
+  isPastReleaseDeadline,
+  needsAttendance,
+} from '../utils';
 
 interface LessonCardProps {
   lesson: Lesson;
   onTakeClass?: (lessonId: string) => void;
+  onReleaseClass?: (lessonId: string) => void;
+  conflicts?: Lesson[];
+  busyConflicts?: BusyBlock[];
+  fitsAvailability?: boolean;
 }
 
 /**
  * LessonCard component - Displays a single lesson with its details
  * 
  * Shows lesson information including date, time, subject, students, tutor, and status.
- * For available lessons, displays a "Take Class" button.
+ * The subject links to the lesson detail page and each student to their profile page.
+ * For available lessons, displays a "Take Class" button; for upcoming lessons the
+ * user may release, a "Release Class" button that is disabled once the release
+ * cutoff has passed.
+ * Lessons that clash with the tutor's schedule show a warning listing the clashes,
+ * and lessons that clash with imported busy times list those as well.
+ * Available lessons inside the tutor's weekly availability carry a badge.
+ * Lessons with recorded attendance show a summary (e.g. "2/3 present"), and lessons
+ * that have ended without attendance for every student are flagged.
  * 
  * @param lesson - The lesson data to display
  * @param onTakeClass - Optional callback function when "Take Class" button is clicked
+ * @param onReleaseClass - Optional callback function when "Release Class" button is clicked
+ * @param conflicts - Optional list of the tutor's lessons this lesson overlaps
+ * @param busyConflicts - Optional list of imported busy blocks this lesson overlaps
+ * @param fitsAvailability - Whether the lesson falls within the tutor's weekly availability
  */
-const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
-  const lessonDate = new Date(lesson.date);
-  const formattedDate = formatDate(lessonDate);
-  const formattedTime = formatTime(lessonDate);
+const LessonCard = ({ lesson, onTakeClass, onReleaseClass, conflicts = [], busyConflicts = [], fitsAvailability = false }: LessonCardProps) => {
+  const user = useAuthStore((state) => state.user);
+  const formattedDate = formatLessonDate(lesson);
+  const formattedTime = formatLessonTime(lesson);
+  const attendance = getAttendanceSummary(lesson);
+  const attendanceNeeded = needsAttendance(lesson);
 
-  const getStatusColor = () => {
-    switch (lesson.status) {
-      case 'Completed':
-        return 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200';
-      case 'Confirmed':
-        return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300';
-      case 'Available':
-        return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300';
-      default:
-        return 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200';
-    }
-  };
+  const getStatusColor = () => LESSON_STATUS_COLORS[lesson.status] || LESSON_STATUS_COLORS.Completed;
 
   const getTypeColor = () => {
     switch (lesson.type) {
@@ -53,11 +73,29 @@ const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
       <div className="flex justify-between items-start mb-3 sm:mb-4 gap-2">
         <div className="flex-1 min-w-0">
           <h3 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-1 break-words">
-            {lesson.subject}
+            <Link
+              to={`/lessons/${lesson.id}`}
+              className="hover:text-indigo-600 dark:hover:text-indigo-400 transition"
+            >
+              {lesson.subject}
+            </Link>
           </h3>
           <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
             {formattedDate} {formattedTime}
           </p>
+          {fitsAvailability && (
+            <span className="inline-block mt-1.5 px-2 py-0.5 rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs font-medium">
+              Fits my availability
+            </span>
+          )}
+          {attendanceNeeded && (
+            <Link
+              to={`/lessons/${lesson.id}`}
+              className="inline-block mt-1.5 px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 text-xs font-medium hover:underline"
+            >
+              Attendance needed
+            </Link>
+          )}
         </div>
         <span
           className={`px-2 sm:px-3 py-1 rounded-full text-xs font-medium flex-shrink-0 ${getStatusColor()}`}
@@ -77,7 +115,19 @@ const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
         {lesson.students && lesson.students.length > 0 ? (
           <div className="flex items-start text-xs sm:text-sm text-gray-600 dark:text-gray-400">
             <span className="font-medium mr-2 flex-shrink-0">Students:</span>
-            <span className="break-words">{lesson.students.join(', ')}</span>
+            <span className="break-words">
+              {lesson.students.map((student, index) => (
+                <Fragment key={student}>
+                  {index > 0 && ', '}
+                  <Link
+                    to={`/students/${encodeURIComponent(student)}`}
+                    className="hover:text-indigo-600 dark:hover:text-indigo-400 hover:underline transition"
+                  >
+                    {student}
+                  </Link>
+                </Fragment>
+              ))}
+            </span>
           </div>
         ) : (
           <div className="flex items-center text-xs sm:text-sm text-gray-500 dark:text-gray-500">
@@ -85,6 +135,16 @@ const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
           </div>
         )}
 
+        {attendance.recorded > 0 && (
+          <div className="flex items-center text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-medium mr-2">Attendance:</span>
+            <span>
+              {attendance.present + attendance.late}/{attendance.total} present
+              {attendance.late > 0 && ` (${attendance.late} late)`}
+            </span>
+          </div>
+        )}
+
         {lesson.tutor && (
           <div className="flex items-center text-xs sm:text-sm text-gray-600 dark:text-gray-400">
             <span className="font-medium mr-2">Tutor:</span>
@@ -93,6 +153,28 @@ const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
         )}
       </div>
 
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs sm:text-sm text-amber-800 dark:text-amber-300">
+          <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <span className="break-words">
+            Clashes with {conflicts.map((conflict) => `${conflict.subject} (${formatLessonTime(conflict)})`).join(', ')}
+          </span>
+        </div>
+      )}
+
+      {busyConflicts.length > 0 && (
+        <div className="flex items-start gap-2 mt-2 px-3 py-2 rounded-lg bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 text-xs sm:text-sm text-orange-800 dark:text-orange-300">
+          <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          <span className="break-words">
+            Busy: {busyConflicts.map((block) => `${block.summary} (${formatTime(block.start)})`).join(', ')}
+          </span>
+        </div>
+      )}
+
       {lesson.type === 'Available' && onTakeClass && (
         <button
           onClick={() => onTakeClass(lesson.id)}
@@ -102,6 +184,22 @@ const LessonCard = ({ lesson, onTakeClass }: LessonCardProps) => {
           Take Class
         </button>
       )}
+
+      {onReleaseClass && canReleaseLesson(lesson, user) && (
+        isPastReleaseDeadline(lesson) ? (
+          <p className="mt-3 sm:mt-4 text-xs text-gray-500 dark:text-gray-400 text-center">
+            {getReleaseCutoffMessage()}
+          </p>
+        ) : (
+          <button
+            onClick={() => onReleaseClass(lesson.id)}
+            className="w-full mt-3 sm:mt-4 bg-white dark:bg-gray-800 text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 py-2 px-4 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base"
+            aria-label={`Release class: ${lesson.subject}`}
+          >
+            Release Class
+          </button>
+        )
+      )}
     </div>
   );
 };
@@ -1,48 +1,142 @@
-import { Lesson } from '../types';
+import { Fragment, useEffect, useRef } from 'react';
+import { BusyBlock, Lesson } from '../types';
 import LessonCard from './LessonCard';
+import VirtualizedGrid from './VirtualizedGrid';
+import { VIRTUALIZATION } from '../constants';
 
 interface LessonSectionProps {
   title: string;
   lessons: Lesson[];
   onTakeClass?: (lessonId: string) => void;
+  onReleaseClass?: (lessonId: string) => void;
+  conflicts?: Map<string, Lesson[]>;
+  busyConflicts?: Map<string, BusyBlock[]>;
+  availabilityMatches?: Set<string>;
   emptyMessage?: string;
+  loading?: boolean;
+  error?: string | null;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  /** Controls shown at the end of the section heading, e.g. a section filter */
+  headerActions?: React.ReactNode;
 }
 
 /**
  * LessonSection component - Displays a section of lesson cards
  * 
- * Renders a title and a grid of lesson cards. Shows an empty message
- * if there are no lessons in the section.
+ * Renders a title with the number of lessons and a grid of lesson cards.
+ * Shows an empty message if there are no lessons in the section.
+ * Sections loaded page by page show a "Load more" button, which also loads
+ * the next page automatically when it scrolls into view.
+ * Large sections are virtualized so only the cards near the viewport are rendered.
  * 
  * @param title - Section title (e.g., "Today's Lessons", "Available Lessons")
  * @param lessons - Array of lessons to display in this section
  * @param onTakeClass - Optional callback function for taking a class
+ * @param onReleaseClass - Optional callback function for releasing a taken class
+ * @param conflicts - Optional map of lesson id to the tutor's lessons it clashes with
+ * @param busyConflicts - Optional map of lesson id to the imported busy blocks it clashes with
+ * @param availabilityMatches - Optional set of lesson ids that fit the tutor's weekly availability
  * @param emptyMessage - Message to display when there are no lessons (default: "No lessons")
+ * @param loading - Whether a page of the section is loading
+ * @param error - Error from loading the section, if any
+ * @param hasMore - Whether more pages can be loaded
+ * @param onLoadMore - Optional callback to load the next page
+ * @param headerActions - Optional controls shown next to the title
  */
 const LessonSection = ({ 
   title, 
   lessons, 
   onTakeClass,
-  emptyMessage = 'No lessons' 
+  onReleaseClass,
+  conflicts,
+  busyConflicts,
+  availabilityMatches,
+  emptyMessage = 'No lessons',
+  loading = false,
+  error = null,
+  hasMore = false,
+  onLoadMore,
+  headerActions,
 }: LessonSectionProps) => {
+  const loadMoreRef = useRef<HTMLButtonElement>(null);
+  const canLoadMore = hasMore && !loading && !error && !!onLoadMore;
+
+  // Infinite scroll: load the next page when the "Load more" button comes into view
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!canLoadMore || !target || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMore?.();
+      }
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [canLoadMore, onLoadMore]);
+
+  const renderCard = (lesson: Lesson) => (
+    <LessonCard
+      lesson={lesson}
+      onTakeClass={onTakeClass}
+      onReleaseClass={onReleaseClass}
+      conflicts={conflicts?.get(lesson.id)}
+      busyConflicts={busyConflicts?.get(lesson.id)}
+      fitsAvailability={availabilityMatches?.has(lesson.id)}
+    />
+  );
+
   return (
     <div className="mb-6 sm:mb-8">
-      <h2 className="text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100 mb-3 sm:mb-4">{title}</h2>
+      <h2 className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100 mb-3 sm:mb-4">
+        {title}
+        <span
+          className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs sm:text-sm font-medium"
+          aria-label={`${lessons.length} lesson${lessons.length === 1 ? '' : 's'}`}
+        >
+          {lessons.length}
+        </span>
+        {loading && (
+          <span
+            className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600"
+            aria-label="Loading"
+          ></span>
+        )}
+        {headerActions && <span className="ml-auto">{headerActions}</span>}
+      </h2>
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-3 sm:mb-4 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
       {lessons.length === 0 ? (
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6 sm:p-8 text-center text-gray-500 dark:text-gray-400 text-sm sm:text-base">
           {emptyMessage}
         </div>
+      ) : VIRTUALIZATION.ENABLED && lessons.length >= VIRTUALIZATION.MIN_ITEMS ? (
+        <VirtualizedGrid items={lessons} getKey={(lesson) => lesson.id} renderItem={renderCard} />
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {lessons.map((lesson) => (
-            <LessonCard
-              key={lesson.id}
-              lesson={lesson}
-              onTakeClass={onTakeClass}
-            />
+            <Fragment key={lesson.id}>{renderCard(lesson)}</Fragment>
           ))}
         </div>
       )}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center mt-4 sm:mt-6">
+          <button
+            ref={loadMoreRef}
+            type="button"
+            onClick={onLoadMore}
+            disabled={loading}
+            className="px-6 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition font-medium text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
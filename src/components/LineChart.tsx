@@ -0,0 +1,105 @@
+interface LineChartDatum {
+  label: string;
+  /** Share between 0 and 1, or null where there is no data */
+  value: number | null;
+}
+
+interface LineChartProps {
+  data: LineChartDatum[];
+  /** Accessible description of the chart */
+  title: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+const TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * Format a share as a whole percentage
+ */
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * LineChart component - Percentage line chart drawn as SVG
+ *
+ * Plots shares from 0 to 100% with a point per label. Points without data
+ * break the line instead of being drawn as zero.
+ *
+ * @param data - Points to draw, in order
+ * @param title - Accessible description of the chart
+ */
+const LineChart = ({ data, title }: LineChartProps) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(data.length, 1);
+  const x = (index: number) => PADDING.left + slot * index + slot / 2;
+  const y = (value: number) => PADDING.top + plotHeight - value * plotHeight;
+
+  // Split the line at points without data
+  const segments: string[] = [];
+  let current: string[] = [];
+  data.forEach((datum, index) => {
+    if (datum.value === null) {
+      if (current.length > 0) {
+        segments.push(current.join(' '));
+      }
+      current = [];
+      return;
+    }
+    current.push(`${current.length === 0 ? 'M' : 'L'}${x(index)},${y(datum.value)}`);
+  });
+  if (current.length > 0) {
+    segments.push(current.join(' '));
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <title>{title}</title>
+      {TICKS.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-gray-200 dark:stroke-gray-700"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(tick)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+          >
+            {formatPercent(tick)}
+          </text>
+        </g>
+      ))}
+      {segments.map((path, index) => (
+        <path
+          key={index}
+          d={path}
+          fill="none"
+          strokeWidth={2.5}
+          strokeLinejoin="round"
+          className="stroke-indigo-500"
+        />
+      ))}
+      {data.map((datum, index) => (
+        <g key={datum.label}>
+          {datum.value !== null && (
+            <circle cx={x(index)} cy={y(datum.value)} r={4} className="fill-indigo-500 stroke-white dark:stroke-gray-800" strokeWidth={2}>
+              <title>{`${datum.label}: ${formatPercent(datum.value)}`}</title>
+            </circle>
+          )}
+          <text x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 dark:fill-gray-400 text-[11px]">
+            {datum.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default LineChart;
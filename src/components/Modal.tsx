@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Modal component - Centered dialog with a dimmed backdrop
+ *
+ * Closes when the backdrop is clicked or Escape is pressed.
+ *
+ * @param title - Dialog title, also used as its accessible name
+ * @param onClose - Callback function called when the dialog is dismissed
+ * @param children - Dialog body
+ */
+const Modal = ({ title, onClose, children }: ModalProps) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-5 sm:p-6"
+      >
+        <h2 className="text-lg sm:text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{title}</h2>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,156 @@
+import { useMemo } from 'react';
+import { addMonths, eachDayOfInterval, format, isSameDay, isSameMonth, subMonths } from 'date-fns';
+import { Lesson } from '../types';
+import { CALENDAR, LESSON_TYPE_CHIP_COLORS, WEEKDAY_ABBREVIATIONS } from '../constants';
+import { formatLessonTime, getCalendarGridRange, getLessonWallClock } from '../utils';
+
+interface MonthCalendarProps {
+  month: Date;
+  lessons: Lesson[];
+  selectedDate?: Date | null;
+  onMonthChange: (month: Date) => void;
+  onDayClick: (day: Date) => void;
+}
+
+/**
+ * MonthCalendar component - Displays lessons in a monthly calendar grid
+ *
+ * Each day cell lists its lessons as chips colored by lesson type, on the day they
+ * are held in the lesson's timezone. Clicking a day
+ * selects it (the parent narrows the date range to that day), and the header
+ * provides previous/next month navigation.
+ *
+ * @param month - Month currently displayed
+ * @param lessons - Lessons to place in the grid (already filtered by the parent)
+ * @param selectedDate - Currently selected day, highlighted in the grid
+ * @param onMonthChange - Callback when navigating to another month
+ * @param onDayClick - Callback when a day cell is clicked
+ */
+const MonthCalendar = ({ month, lessons, selectedDate, onMonthChange, onDayClick }: MonthCalendarProps) => {
+  const days = useMemo(() => {
+    const { start, end } = getCalendarGridRange(month);
+    return eachDayOfInterval({ start, end });
+  }, [month]);
+
+  // Group lessons by day key (yyyy-MM-dd) so each cell can look up its lessons directly
+  const lessonsByDay = useMemo(() => {
+    const grouped = new Map<string, Lesson[]>();
+    [...lessons]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .forEach((lesson) => {
+        const dayKey = format(getLessonWallClock(lesson), 'yyyy-MM-dd');
+        grouped.set(dayKey, [...(grouped.get(dayKey) || []), lesson]);
+      });
+    return grouped;
+  }, [lessons]);
+
+  const today = new Date();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-6">
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <button
+          onClick={() => onMonthChange(subMonths(month, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+          aria-label="Previous month"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-lg sm:text-xl font-bold text-gray-800 dark:text-gray-100">
+          {format(month, 'MMMM yyyy')}
+        </h2>
+        <button
+          onClick={() => onMonthChange(addMonths(month, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+          aria-label="Next month"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Weekday header */}
+      <div className="grid grid-cols-7 gap-px mb-px">
+        {WEEKDAY_ABBREVIATIONS.map((weekday) => (
+          <div
+            key={weekday}
+            className="text-center text-xs font-medium text-gray-500 dark:text-gray-400 py-2"
+          >
+            {weekday}
+          </div>
+        ))}
+      </div>
+
+      {/* Day cells */}
+      <div className="grid grid-cols-7 gap-px bg-gray-200 dark:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+        {days.map((day) => {
+          const dayKey = format(day, 'yyyy-MM-dd');
+          const dayLessons = lessonsByDay.get(dayKey) || [];
+          const inMonth = isSameMonth(day, month);
+          const isSelected = selectedDate ? isSameDay(day, selectedDate) : false;
+          const isCurrentDay = isSameDay(day, today);
+          const hiddenCount = dayLessons.length - CALENDAR.MAX_CHIPS_PER_DAY;
+
+          return (
+            <button
+              key={dayKey}
+              onClick={() => onDayClick(day)}
+              className={`min-h-[4.5rem] sm:min-h-[6.5rem] p-1 sm:p-1.5 text-left align-top flex flex-col gap-1 transition ${
+                isSelected
+                  ? 'bg-indigo-50 dark:bg-indigo-900/30 ring-2 ring-inset ring-indigo-500'
+                  : inMonth
+                  ? 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700/60'
+                  : 'bg-gray-50 dark:bg-gray-900/60 hover:bg-gray-100 dark:hover:bg-gray-700/60'
+              }`}
+              aria-label={`${format(day, 'MMMM d, yyyy')}: ${dayLessons.length} lesson${dayLessons.length === 1 ? '' : 's'}`}
+              aria-pressed={isSelected}
+            >
+              <span
+                className={`text-xs sm:text-sm font-medium w-6 h-6 flex items-center justify-center rounded-full ${
+                  isCurrentDay
+                    ? 'bg-indigo-600 text-white'
+                    : inMonth
+                    ? 'text-gray-800 dark:text-gray-100'
+                    : 'text-gray-400 dark:text-gray-500'
+                }`}
+              >
+                {format(day, 'd')}
+              </span>
+              {dayLessons.slice(0, CALENDAR.MAX_CHIPS_PER_DAY).map((lesson) => (
+                <span
+                  key={lesson.id}
+                  className={`block w-full truncate rounded border-l-2 px-1 py-0.5 text-[10px] sm:text-xs ${LESSON_TYPE_CHIP_COLORS[lesson.type]}`}
+                  title={`${formatLessonTime(lesson)} ${lesson.subject} (${lesson.type})`}
+                >
+                  <span className="hidden sm:inline font-medium mr-1">{format(getLessonWallClock(lesson), 'HH:mm')}</span>
+                  {lesson.subject}
+                </span>
+              ))}
+              {hiddenCount > 0 && (
+                <span className="text-[10px] sm:text-xs text-gray-500 dark:text-gray-400 px-1">
+                  +{hiddenCount} more
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-gray-600 dark:text-gray-400">
+        {(Object.keys(LESSON_TYPE_CHIP_COLORS) as Array<keyof typeof LESSON_TYPE_CHIP_COLORS>).map((type) => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className={`inline-block w-3 h-3 rounded border-l-2 ${LESSON_TYPE_CHIP_COLORS[type]}`}></span>
+            {type}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useLessonStore } from '../store/lessonStore';
+
+/**
+ * OfflineBanner component - Offline status shown above every page
+ *
+ * Tells the tutor when the connection is lost or the lessons shown come from the
+ * offline cache (with the time they were saved), how many class claims are waiting
+ * to be sent, and which queued claims the server rejected once they were replayed.
+ * Renders nothing while online with live data and nothing to report.
+ */
+const OfflineBanner = () => {
+  const { cachedAt, queuedTakeClasses, replayFailures, dismissReplayFailures } = useLessonStore();
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const queuedCount = queuedTakeClasses.length;
+  if (online && !cachedAt && queuedCount === 0 && replayFailures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 sm:mb-6 space-y-3" role="status">
+      {(!online || cachedAt || queuedCount > 0) && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg text-sm sm:text-base">
+          <p className="font-medium">
+            {online ? 'Reconnecting...' : "You're offline."}
+            {cachedAt && ` Showing cached data from ${format(new Date(cachedAt), 'MMMM dd, yyyy HH:mm')}.`}
+          </p>
+          {queuedCount > 0 && (
+            <p className="text-xs sm:text-sm mt-1">
+              {queuedCount} class claim{queuedCount === 1 ? '' : 's'} will be sent when you're back online.
+            </p>
+          )}
+        </div>
+      )}
+      {replayFailures.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg text-sm sm:text-base">
+          <div className="flex items-start justify-between gap-3">
+            <p className="font-medium">
+              {replayFailures.length === 1
+                ? "A class you claimed while offline couldn't be taken:"
+                : `${replayFailures.length} classes you claimed while offline couldn't be taken:`}
+            </p>
+            <button
+              type="button"
+              onClick={dismissReplayFailures}
+              className="text-xs sm:text-sm font-medium underline hover:no-underline whitespace-nowrap"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs sm:text-sm list-disc list-inside">
+            {replayFailures.map((failure) => (
+              <li key={failure.lessonId}>
+                <span className="font-medium">{failure.subject}</span>: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineBanner;
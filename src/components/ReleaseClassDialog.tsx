@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Lesson } from '../types';
+import { RELEASE_POLICY } from '../constants';
+import { formatLessonDate, formatLessonTime } from '../utils';
+import Modal from './Modal';
+
+interface ReleaseClassDialogProps {
+  lesson: Lesson;
+  onConfirm: (reason: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * ReleaseClassDialog component - Asks for confirmation and a reason before releasing a class
+ *
+ * Errors from the release (e.g. the cutoff has passed) are shown inside the dialog
+ * so the tutor can see why the class was not released.
+ *
+ * @param lesson - The lesson being released
+ * @param onConfirm - Called with the reason when the tutor confirms; rejects on failure
+ * @param onCancel - Called when the dialog is dismissed
+ */
+const ReleaseClassDialog = ({ lesson, onConfirm, onCancel }: ReleaseClassDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const reasonTooShort = reason.trim().length < RELEASE_POLICY.MIN_REASON_LENGTH;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reasonTooShort) {
+      return;
+    }
+    setError('');
+    setSubmitting(true);
+    try {
+      await onConfirm(reason.trim());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to release class');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal title="Release class" onClose={onCancel}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          <span className="font-medium text-gray-800 dark:text-gray-200">{lesson.subject}</span>
+          {' '}on {formatLessonDate(lesson)} {formatLessonTime(lesson)} will go back to the Available lessons
+          so another tutor can take it.
+        </p>
+
+        <div>
+          <label htmlFor="release-reason" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Reason
+          </label>
+          <textarea
+            id="release-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            required
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder="e.g. Schedule clash with another commitment"
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 sm:gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-sm"
+          >
+            Keep class
+          </button>
+          <button
+            type="submit"
+            disabled={reasonTooShort || submitting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Releasing...' : 'Release class'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ReleaseClassDialog;
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Lesson, LessonReportContent } from '../types';
+import { useReportDraftStore } from '../store/reportDraftStore';
+import { renderMarkdown } from '../utils/markdown';
+import { REPORTS } from '../constants';
+
+interface ReportEditorProps {
+  lesson: Lesson;
+  onSubmit: (report: LessonReportContent) => Promise<void>;
+}
+
+// Styles for the rendered markdown, which has no classes of its own
+const MARKDOWN_CLASSES =
+  'text-sm sm:text-base text-gray-700 dark:text-gray-300 space-y-2 break-words [&_h3]:text-base [&_h3]:font-semibold [&_h4]:font-semibold [&_h5]:font-medium [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_code]:px-1 [&_code]:rounded [&_code]:bg-gray-100 dark:[&_code]:bg-gray-700 [&_a]:text-indigo-600 dark:[&_a]:text-indigo-400 [&_a]:underline';
+
+const TEXTAREA_CLASSES =
+  'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-y';
+
+/**
+ * Markdown preview of one report section
+ */
+const MarkdownPreview = ({ text }: { text: string }) =>
+  text.trim() ? (
+    <div className={MARKDOWN_CLASSES} dangerouslySetInnerHTML={{ __html: renderMarkdown(text) }} />
+  ) : (
+    <p className="text-sm text-gray-400 dark:text-gray-500 italic">Nothing written</p>
+  );
+
+/**
+ * ReportEditor component - Post-lesson notes and per-student progress reports
+ *
+ * Has a section for the lesson as a whole and one per student, written in
+ * lightweight markdown with a preview. Changes are autosaved as a draft in
+ * local storage and the draft is discarded once the report is submitted.
+ * A submitted report can be edited and submitted again.
+ *
+ * @param lesson - The historic lesson to report on
+ * @param onSubmit - Callback that submits the report; should throw on failure
+ */
+const ReportEditor = ({ lesson, onSubmit }: ReportEditorProps) => {
+  const draft = useReportDraftStore((state) => state.drafts[lesson.id]);
+  const { saveDraft, discardDraft } = useReportDraftStore();
+  const [content, setContent] = useState<LessonReportContent>(() => ({
+    notes: draft?.notes ?? lesson.report?.notes ?? '',
+    students: { ...lesson.report?.students, ...draft?.students },
+  }));
+  const [preview, setPreview] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const edited = useRef(false);
+
+  // Autosave a draft shortly after the tutor stops typing
+  useEffect(() => {
+    if (!edited.current) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      // The report may have been submitted or the draft discarded in the meantime
+      if (edited.current) {
+        saveDraft(lesson.id, content);
+      }
+    }, REPORTS.AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [content, lesson.id, saveDraft]);
+
+  const updateNotes = (notes: string) => {
+    edited.current = true;
+    setContent((current) => ({ ...current, notes }));
+  };
+
+  const updateStudent = (student: string, text: string) => {
+    edited.current = true;
+    setContent((current) => ({ ...current, students: { ...current.students, [student]: text } }));
+  };
+
+  const handleDiscard = () => {
+    edited.current = false;
+    discardDraft(lesson.id);
+    setContent({ notes: lesson.report?.notes ?? '', students: { ...lesson.report?.students } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await onSubmit(content);
+      edited.current = false;
+      discardDraft(lesson.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to submit report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const sections = [
+    { key: 'notes', label: 'Lesson notes', text: content.notes, onChange: updateNotes },
+    ...lesson.students.map((student) => ({
+      key: `student-${student}`,
+      label: student,
+      text: content.students[student] || '',
+      onChange: (text: string) => updateStudent(student, text),
+    })),
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="pt-4 mb-6 border-t border-gray-200 dark:border-gray-700" aria-labelledby="report-heading">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 id="report-heading" className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100">
+          Lesson report
+        </h2>
+        <div className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-xs sm:text-sm">
+          {(['Write', 'Preview'] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setPreview(mode === 'Preview')}
+              aria-pressed={preview === (mode === 'Preview')}
+              className={`px-3 py-1 font-medium transition ${
+                preview === (mode === 'Preview')
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {lesson.report
+          ? `Submitted ${format(new Date(lesson.report.submittedAt), 'MMMM dd, yyyy HH:mm')}. You can update it and submit again.`
+          : 'Supports **bold**, *italic*, `code`, lists and [links](https://...).'}
+      </p>
+
+      <div className="space-y-4">
+        {sections.map((section) => (
+          <div key={section.key}>
+            <label
+              htmlFor={`report-${section.key}`}
+              className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              {section.label}
+            </label>
+            {preview ? (
+              <div className="px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-900/40 min-h-[3rem]">
+                <MarkdownPreview text={section.text} />
+              </div>
+            ) : (
+              <textarea
+                id={`report-${section.key}`}
+                value={section.text}
+                onChange={(e) => section.onChange(e.target.value)}
+                maxLength={REPORTS.MAX_SECTION_LENGTH}
+                rows={section.key === 'notes' ? 4 : 3}
+                className={TEXTAREA_CLASSES}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-3 mt-4">
+        {draft && (
+          <span className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 sm:mr-auto">
+            Draft saved at {format(new Date(draft.savedAt), 'HH:mm')}
+            <button
+              type="button"
+              onClick={handleDiscard}
+              className="ml-2 font-medium text-red-600 dark:text-red-400 hover:underline"
+            >
+              Discard draft
+            </button>
+          </span>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Submitting...' : lesson.report ? 'Update report' : 'Submit report'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReportEditor;
@@ -1,4 +1,17 @@
 import { Link, useLocation } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { Permission } from '../types';
+import { hasPermission } from '../utils';
+
+interface MenuItem {
+  name: string;
+  path: string;
+  icon: React.ReactNode;
+  /** Permission required to see the item; items without one are shown to every user */
+  permission?: Permission;
+  /** Keep the month and date range filters in the query string when moving between such items */
+  sharesFilters?: boolean;
+}
 
 interface SidebarProps {
   isOpen: boolean;
@@ -10,25 +23,72 @@ interface SidebarProps {
  * 
  * Displays a responsive sidebar that is always visible on desktop (lg breakpoint and above)
  * and can be toggled on mobile devices. Includes an overlay on mobile when open.
+ * Menu items are filtered by the current user's permissions.
  * 
  * @param isOpen - Whether the sidebar is open (affects mobile visibility)
  * @param onClose - Callback function to close the sidebar
  */
 const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
   const location = useLocation();
+  const user = useAuthStore((state) => state.user);
 
-  const menuItems = [
+  const menuItems: MenuItem[] = [
     {
       name: 'Dashboard',
       path: '/dashboard',
+      sharesFilters: true,
       icon: (
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
         </svg>
       ),
     },
+    {
+      name: 'Availability',
+      path: '/availability',
+      permission: 'takeClass',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Analytics',
+      path: '/analytics',
+      sharesFilters: true,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Earnings',
+      path: '/earnings',
+      permission: 'takeClass',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Settings',
+      path: '/settings',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+      ),
+    },
   ];
 
+  const visibleMenuItems = menuItems.filter(
+    (item) => !item.permission || hasPermission(user, item.permission)
+  );
+  const currentSharesFilters = menuItems.some((item) => item.sharesFilters && item.path === location.pathname);
+
   return (
     <>
       {/* Mobile overlay */}
@@ -63,12 +123,12 @@ const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
           {/* Menu items */}
           <nav className="flex-1 p-4">
             <ul className="space-y-2">
-              {menuItems.map((item) => {
+              {visibleMenuItems.map((item) => {
                 const isActive = location.pathname === item.path;
                 return (
                   <li key={item.path}>
                     <Link
-                      to={item.path}
+                      to={item.sharesFilters && currentSharesFilters ? { pathname: item.path, search: location.search } : item.path}
                       onClick={onClose}
                       className={`flex items-center gap-3 px-4 py-3 rounded-lg transition ${
                         isActive
@@ -0,0 +1,45 @@
+import { DashboardView } from '../types';
+
+interface ViewSwitcherProps {
+  view: DashboardView;
+  onChange: (view: DashboardView) => void;
+}
+
+const VIEW_OPTIONS: Array<{ value: DashboardView; label: string }> = [
+  { value: 'cards', label: 'Cards' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+/**
+ * ViewSwitcher component - Segmented control for switching dashboard views
+ *
+ * @param view - Currently active view
+ * @param onChange - Callback when another view is selected
+ */
+const ViewSwitcher = ({ view, onChange }: ViewSwitcherProps) => {
+  return (
+    <div
+      className="inline-flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1"
+      role="group"
+      aria-label="Dashboard view"
+    >
+      {VIEW_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          aria-pressed={view === option.value}
+          className={`px-3 sm:px-4 py-1.5 rounded-md text-xs sm:text-sm font-medium transition ${
+            view === option.value
+              ? 'bg-white dark:bg-gray-800 text-indigo-600 dark:text-indigo-400 shadow-sm'
+              : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ViewSwitcher;
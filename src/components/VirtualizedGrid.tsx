@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { VIRTUALIZATION } from '../constants';
+
+interface VirtualizedGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+/**
+ * Column breakpoints, matching the grid-cols-1 / sm:grid-cols-2 / lg:grid-cols-3 classes
+ */
+const COLUMN_QUERIES = [
+  { query: '(min-width: 1024px)', columns: 3 },
+  { query: '(min-width: 640px)', columns: 2 },
+];
+
+const getColumnCount = () => {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return 1;
+  }
+  return COLUMN_QUERIES.find(({ query }) => window.matchMedia(query).matches)?.columns ?? 1;
+};
+
+/**
+ * Find the row that contains a vertical position
+ * @param offsets - Top offset of each row, plus the total height as the last entry
+ * @param position - Position relative to the top of the grid
+ */
+const findRow = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * VirtualizedGrid component - Renders a large responsive grid one window of rows at a time
+ *
+ * Only the rows near the viewport are mounted; the rest of the grid is represented by
+ * its height so the page scrolls normally. Row heights start from an estimate and are
+ * measured once rendered. The number of columns follows the same 1/2/3-column
+ * breakpoints as the regular lesson grid.
+ *
+ * The row holding keyboard focus stays mounted while it is scrolled away, so focus is
+ * not lost, and rows are kept in document order so Tab moves through cards as usual.
+ *
+ * @param items - Items to render
+ * @param getKey - Stable key for an item
+ * @param renderItem - Renders one grid cell
+ */
+const VirtualizedGrid = <T,>({ items, getKey, renderItem }: VirtualizedGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowHeights = useRef(new Map<number, number>());
+  const [columns, setColumns] = useState(getColumnCount);
+  const [viewport, setViewport] = useState({ top: 0, height: typeof window === 'undefined' ? 0 : window.innerHeight });
+  const [focusedRow, setFocusedRow] = useState<number | null>(null);
+  const [, setMeasureVersion] = useState(0);
+
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Track the visible part of the grid relative to its top edge
+  useLayoutEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (container) {
+        setViewport({ top: -container.getBoundingClientRect().top, height: window.innerHeight });
+      }
+    };
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(update);
+      }
+    };
+    const handleResize = () => {
+      setColumns(getColumnCount());
+      schedule();
+    };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', handleResize);
+      if (frame) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, []);
+
+  // Rows hold different cards once the column count changes, so measurements are stale
+  useEffect(() => {
+    rowHeights.current.clear();
+    setMeasureVersion((version) => version + 1);
+  }, [columns]);
+
+  // Measure rendered rows and re-render when a height differs from what was assumed
+  const observer = useMemo(
+    () =>
+      typeof ResizeObserver === 'undefined'
+        ? null
+        : new ResizeObserver((entries, resizeObserver) => {
+            let changed = false;
+            entries.forEach((entry) => {
+              const element = entry.target as HTMLElement;
+              // Rows scrolled out of the window are unmounted; stop watching them
+              if (!element.isConnected) {
+                resizeObserver.unobserve(element);
+                return;
+              }
+              const row = Number(element.dataset.row);
+              const height = element.offsetHeight;
+              if (rowHeights.current.get(row) !== height) {
+                rowHeights.current.set(row, height);
+                changed = true;
+              }
+            });
+            if (changed) {
+              setMeasureVersion((version) => version + 1);
+            }
+          }),
+    []
+  );
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  const measureRow = useCallback(
+    (element: HTMLDivElement | null) => {
+      if (element && observer) {
+        observer.observe(element);
+      }
+    },
+    [observer]
+  );
+
+  const offsets = [0];
+  for (let row = 0; row < rowCount; row++) {
+    offsets.push(offsets[row] + (rowHeights.current.get(row) ?? VIRTUALIZATION.ESTIMATED_ROW_HEIGHT_PX));
+  }
+  const totalHeight = offsets[rowCount];
+
+  const firstRow = Math.max(0, findRow(offsets, viewport.top) - VIRTUALIZATION.OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, findRow(offsets, viewport.top + viewport.height) + VIRTUALIZATION.OVERSCAN_ROWS);
+  const rows: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    rows.push(row);
+  }
+  if (focusedRow !== null && focusedRow < rowCount && !rows.includes(focusedRow)) {
+    rows.push(focusedRow);
+    rows.sort((a, b) => a - b);
+  }
+
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const rowElement = (e.target as HTMLElement).closest<HTMLElement>('[data-row]');
+    setFocusedRow(rowElement ? Number(rowElement.dataset.row) : null);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setFocusedRow(null);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      style={{ height: totalHeight }}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+    >
+      {rows.map((row) => (
+        <div
+          key={row}
+          ref={measureRow}
+          data-row={row}
+          className="absolute left-0 right-0 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 pb-4 sm:pb-6"
+          style={{ top: offsets[row] }}
+        >
+          {items.slice(row * columns, (row + 1) * columns).map((item) => (
+            <div key={getKey(item)} className="grid">
+              {renderItem(item)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VirtualizedGrid;
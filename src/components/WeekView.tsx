@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, addWeeks, differenceInMinutes, format, isSameDay, startOfDay, subWeeks } from 'date-fns';
+import { Lesson } from '../types';
+import { LESSON_TYPE_CHIP_COLORS, WEEK_VIEW } from '../constants';
+import { formatLessonTime, getLessonEnd, getLessonWallClock, getWeekRange } from '../utils';
+
+interface WeekViewProps {
+  week: Date;
+  lessons: Lesson[];
+  onWeekChange: (week: Date) => void;
+  onTakeClass?: (lessonId: string) => void;
+}
+
+interface PositionedLesson {
+  lesson: Lesson;
+  top: number;
+  height: number;
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * Lay out a day's lessons in side-by-side lanes so overlapping lessons stay readable
+ * @param lessons - Lessons of a single day
+ * @param startHour - First hour visible in the timetable
+ * @returns Lessons with their vertical position and lane
+ */
+const layoutDay = (lessons: Lesson[], startHour: number): PositionedLesson[] => {
+  const sorted = [...lessons].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const laneEnds: number[] = [];
+  const positioned = sorted.map((lesson) => {
+    const start = getLessonWallClock(lesson);
+    const startMinutes = differenceInMinutes(start, startOfDay(start));
+    const endMinutes = startMinutes + differenceInMinutes(getLessonEnd(lesson), new Date(lesson.date));
+
+    // Reuse the first lane that is free again, otherwise open a new one
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= startMinutes);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = endMinutes;
+
+    return {
+      lesson,
+      top: ((startMinutes - startHour * 60) / 60) * WEEK_VIEW.HOUR_HEIGHT_PX,
+      height: ((endMinutes - startMinutes) / 60) * WEEK_VIEW.HOUR_HEIGHT_PX,
+      lane,
+      lanes: 0,
+    };
+  });
+  return positioned.map((item) => ({ ...item, lanes: laneEnds.length }));
+};
+
+/**
+ * WeekView component - Displays lessons in an hour-by-day weekly timetable
+ *
+ * Lessons are placed by their start time in the lesson's timezone, so the grid
+ * matches the times on the cards. Available lessons are drawn as outlined
+ * slots with a "Take" action, and a "now" line marks the current time when the
+ * current week is shown.
+ *
+ * @param week - Any date within the week to display
+ * @param lessons - Lessons to place in the timetable (already filtered by the parent)
+ * @param onWeekChange - Callback when navigating to another week
+ * @param onTakeClass - Optional callback for taking an available lesson from the grid
+ */
+const WeekView = ({ week, lessons, onWeekChange, onTakeClass }: WeekViewProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the "now" line moving while the view is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), WEEK_VIEW.NOW_LINE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { start: weekStart, end: weekEnd } = getWeekRange(week);
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+  // Grow the visible hour range so lessons outside the default hours are still shown
+  const { startHour, endHour } = useMemo(() => {
+    let first: number = WEEK_VIEW.START_HOUR;
+    let last: number = WEEK_VIEW.END_HOUR;
+    lessons.forEach((lesson) => {
+      const start = getLessonWallClock(lesson);
+      const endHourOfLesson = Math.ceil((start.getHours() * 60 + start.getMinutes() + differenceInMinutes(getLessonEnd(lesson), new Date(lesson.date))) / 60);
+      first = Math.min(first, start.getHours());
+      last = Math.max(last, Math.min(endHourOfLesson, 24));
+    });
+    return { startHour: first, endHour: last };
+  }, [lessons]);
+
+  const hours = Array.from({ length: endHour - startHour }, (_, index) => startHour + index);
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const showNowLine = now >= weekStart && now <= weekEnd && nowMinutes >= startHour * 60 && nowMinutes <= endHour * 60;
+  const nowTop = ((nowMinutes - startHour * 60) / 60) * WEEK_VIEW.HOUR_HEIGHT_PX;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-6">
+      {/* Week navigation */}
+      <div className="flex items-center justify-between gap-2 mb-3 sm:mb-4">
+        <button
+          onClick={() => onWeekChange(subWeeks(week, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+          aria-label="Previous week"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div className="flex flex-col sm:flex-row items-center gap-1 sm:gap-3">
+          <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-gray-100 text-center">
+            {format(weekStart, 'MMM d')} – {format(weekEnd, 'MMM d, yyyy')}
+          </h2>
+          <button
+            onClick={() => onWeekChange(new Date())}
+            className="px-2.5 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition text-xs font-medium"
+          >
+            This week
+          </button>
+        </div>
+        <button
+          onClick={() => onWeekChange(addWeeks(week, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
+          aria-label="Next week"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[44rem]">
+          {/* Day header */}
+          <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-gray-200 dark:border-gray-700">
+            <div></div>
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={`text-center py-2 text-xs sm:text-sm font-medium ${
+                  isSameDay(day, now) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {format(day, 'EEE d')}
+              </div>
+            ))}
+          </div>
+
+          {/* Time grid */}
+          <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))]">
+            {/* Hour labels */}
+            <div>
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="text-right pr-2 text-[10px] sm:text-xs text-gray-400 dark:text-gray-500 -translate-y-2"
+                  style={{ height: WEEK_VIEW.HOUR_HEIGHT_PX }}
+                >
+                  {`${hour.toString().padStart(2, '0')}:00`}
+                </div>
+              ))}
+            </div>
+
+            {days.map((day) => {
+              const dayLessons = lessons.filter((lesson) => isSameDay(getLessonWallClock(lesson), day));
+              return (
+                <div
+                  key={day.toISOString()}
+                  className="relative border-l border-gray-200 dark:border-gray-700"
+                  style={{ height: hours.length * WEEK_VIEW.HOUR_HEIGHT_PX }}
+                >
+                  {/* Hour slot lines */}
+                  {hours.map((hour) => (
+                    <div
+                      key={hour}
+                      className="border-b border-gray-100 dark:border-gray-700/60"
+                      style={{ height: WEEK_VIEW.HOUR_HEIGHT_PX }}
+                    ></div>
+                  ))}
+
+                  {layoutDay(dayLessons, startHour).map(({ lesson, top, height, lane, lanes }) => {
+                    const isAvailable = lesson.type === 'Available';
+                    return (
+                      <div
+                        key={lesson.id}
+                        className={`absolute rounded-md px-1.5 py-1 overflow-hidden text-[10px] sm:text-xs ${
+                          isAvailable
+                            ? 'border-2 border-dashed border-green-500 dark:border-green-400 bg-white/80 dark:bg-gray-800/80 text-green-800 dark:text-green-300'
+                            : `border-l-4 ${LESSON_TYPE_CHIP_COLORS[lesson.type]}`
+                        }`}
+                        style={{
+                          top,
+                          height: height - 2,
+                          left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                          width: `calc(${100 / lanes}% - 4px)`,
+                        }}
+                        title={`${formatLessonTime(lesson)} ${lesson.subject} (${lesson.type})`}
+                      >
+                        <div className="font-medium truncate">{format(getLessonWallClock(lesson), 'HH:mm')}</div>
+                        <div className="truncate">{lesson.subject}</div>
+                        {isAvailable && onTakeClass && (
+                          <button
+                            onClick={() => onTakeClass(lesson.id)}
+                            className="mt-0.5 px-1.5 py-0.5 rounded bg-green-600 text-white hover:bg-green-700 transition font-medium"
+                            aria-label={`Take class: ${lesson.subject}`}
+                          >
+                            Take
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {showNowLine && isSameDay(day, now) && (
+                    <div className="absolute left-0 right-0 z-10 pointer-events-none" style={{ top: nowTop }}>
+                      <div className="relative border-t-2 border-red-500">
+                        <span className="absolute -left-1 -top-[5px] w-2 h-2 rounded-full bg-red-500"></span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WeekView;
@@ -1,3 +1,14 @@
+import {
+  AttendanceStatus,
+  LessonFacets,
+  LessonStatus,
+  LessonType,
+  Permission,
+  StudentCountRange,
+  SubjectFamily,
+  UserRole,
+} from '../types';
+
 /**
  * Application constants
  */
@@ -49,15 +60,307 @@ export const MONTH_FILTER = {
   MONTHS_FORWARD: 6,
   /** Total number of months in the filter range */
   TOTAL_MONTHS: 12,
-  /** Index threshold: months with index <= this are in the past, > this are in the future */
-  PAST_MONTHS_THRESHOLD: 5,
 } as const;
 
 /**
  * Date filter constants
  */
 export const DATE_FILTER = {
-  /** Value used to clear/reset month filter */
-  CLEAR_MONTH_INDEX: -1,
+  /** Format of month keys, used in the URL and to look up months with lessons */
+  MONTH_FORMAT: 'yyyy-MM',
+  /** Format of date range bounds in the URL */
+  DAY_FORMAT: 'yyyy-MM-dd',
 } as const;
 
+/**
+ * Query string parameters that hold the dashboard filters
+ * e.g. #/dashboard?month=2025-11&q=python&subject=Python,Web
+ */
+export const FILTER_QUERY_PARAMS = {
+  MONTH: 'month',
+  FROM: 'from',
+  TO: 'to',
+  SEARCH: 'q',
+  SUBJECTS: 'subject',
+  STATUSES: 'status',
+  STUDENT_COUNTS: 'students',
+  FITS_AVAILABILITY: 'fits',
+  REPORT_MISSING: 'noreport',
+} as const;
+
+
+/**
+ * Badge colors per lesson status
+ */
+export const LESSON_STATUS_COLORS: Record<LessonStatus, string> = {
+  Completed: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+  Confirmed: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  Available: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+};
+
+/**
+ * Attendance options, in the order shown in the attendance panel
+ */
+export const ATTENDANCE_OPTIONS: { status: AttendanceStatus; label: string; activeClassName: string }[] = [
+  { status: 'present', label: 'Present', activeClassName: 'bg-green-600 text-white border-green-600' },
+  { status: 'late', label: 'Late', activeClassName: 'bg-amber-500 text-white border-amber-500' },
+  { status: 'absent', label: 'Absent', activeClassName: 'bg-red-600 text-white border-red-600' },
+];
+
+/**
+ * Calendar chip colors per lesson type
+ * Kept in line with the border colors used by LessonCard
+ */
+export const LESSON_TYPE_CHIP_COLORS: Record<LessonType, string> = {
+  Historic: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-400',
+  Upcoming: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-400',
+  Available: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-400',
+};
+
+/**
+ * Weekday labels for calendar headers (weeks start on Monday)
+ */
+export const WEEKDAY_ABBREVIATIONS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+/**
+ * Calendar view constants
+ */
+export const CALENDAR = {
+  /** Maximum number of lesson chips shown in a month grid cell before collapsing into "+N more" */
+  MAX_CHIPS_PER_DAY: 3,
+  /** Day the week starts on (0 = Sunday, 1 = Monday) */
+  WEEK_STARTS_ON: 1,
+} as const;
+
+/**
+ * Weekly timetable constants
+ * The visible hour range grows automatically to fit lessons outside of it.
+ */
+export const WEEK_VIEW = {
+  /** First hour shown in the timetable (inclusive) */
+  START_HOUR: 8,
+  /** Last hour shown in the timetable (exclusive) */
+  END_HOUR: 20,
+  /** Height of a one-hour slot in pixels */
+  HOUR_HEIGHT_PX: 56,
+  /** How often the "now" line is repositioned, in milliseconds */
+  NOW_LINE_REFRESH_MS: 60000,
+} as const;
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  tutor: ['takeClass'],
+  coordinator: ['viewOtherTutors', 'editLessons'],
+  admin: ['takeClass', 'viewOtherTutors', 'editLessons'],
+};
+
+/**
+ * Read a numeric setting, falling back only when it is unset, empty or not a number, so 0 is kept
+ */
+const readNumberEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Release policy for taken classes
+ */
+export const RELEASE_POLICY = {
+  /** Hours before the start of a lesson after which it can no longer be released */
+  CUTOFF_HOURS: readNumberEnv(import.meta.env.VITE_RELEASE_CUTOFF_HOURS, 24),
+  /** Shortest reason accepted when releasing a class */
+  MIN_REASON_LENGTH: 5,
+} as const;
+
+/**
+ * Scheduling policy used for double-booking checks
+ */
+export const SCHEDULING_POLICY = {
+  /** Length assumed for a lesson when checking for overlaps, in minutes */
+  DEFAULT_LESSON_MINUTES: Number(import.meta.env.VITE_DEFAULT_LESSON_MINUTES) || 60,
+  /** Whether a tutor may confirm taking a class that overlaps one of their lessons */
+  ALLOW_OVERLAP_OVERRIDE: import.meta.env.VITE_ALLOW_OVERLAP_OVERRIDE !== 'false',
+} as const;
+
+/**
+ * Short names for the timezones lessons are usually scheduled in
+ * Timezones not listed here use the browser's short name instead.
+ */
+export const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  'Asia/Singapore': 'SGT',
+  'Asia/Kuala_Lumpur': 'MYT',
+  'Asia/Hong_Kong': 'HKT',
+  'Asia/Tokyo': 'JST',
+  'Asia/Manila': 'PHT',
+  'Asia/Kolkata': 'IST',
+  UTC: 'UTC',
+};
+
+/**
+ * iCalendar (.ics) export constants
+ */
+export const ICAL = {
+  /** Product identifier written to exported calendars */
+  PRODID: '-//Champ Code Academy//Tutor Portal//EN',
+  /** Domain appended to lesson IDs so event UIDs are globally unique */
+  UID_DOMAIN: 'tutor-portal.champcodeacademy',
+  /** Calendar name shown by calendar apps that support it */
+  CALENDAR_NAME: 'Champ Code Academy Lessons',
+  /** Longest content line in octets before it is folded (RFC 5545 3.1) */
+  MAX_LINE_OCTETS: 75,
+} as const;
+
+/**
+ * Busy calendar import constants
+ */
+export const BUSY_IMPORT = {
+  /** Largest .ics file accepted, in bytes */
+  MAX_FILE_BYTES: 2 * 1024 * 1024,
+  /** Upper bound on occurrences generated per recurring event */
+  MAX_OCCURRENCES: 1000,
+} as const;
+
+/**
+ * Full weekday names, indexed by Date.getDay() (0 = Sunday)
+ */
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+/**
+ * Subject families and the subject keywords that identify them (case-insensitive)
+ */
+export const SUBJECT_FAMILIES: { family: SubjectFamily; keywords: readonly string[] }[] = [
+  { family: 'Minecraft', keywords: ['minecraft'] },
+  { family: 'Roblox', keywords: ['roblox'] },
+  { family: 'Python', keywords: ['python'] },
+  { family: 'Web', keywords: ['website', 'web', 'html', 'css', 'javascript'] },
+];
+
+/**
+ * Lesson statuses offered as filter facets
+ */
+export const STATUS_FACETS: readonly LessonStatus[] = ['Available', 'Confirmed', 'Completed'];
+
+/**
+ * Student count buckets offered as filter facets (bounds are inclusive)
+ */
+export const STUDENT_COUNT_RANGES: { range: StudentCountRange; label: string; min: number; max: number }[] = [
+  { range: 'none', label: 'No students', min: 0, max: 0 },
+  { range: 'one', label: '1 student', min: 1, max: 1 },
+  { range: 'small', label: '2–3 students', min: 2, max: 3 },
+  { range: 'large', label: '4+ students', min: 4, max: Infinity },
+];
+
+/**
+ * Facets with nothing selected
+ */
+export const EMPTY_LESSON_FACETS: LessonFacets = {
+  search: '',
+  subjects: [],
+  statuses: [],
+  studentCounts: [],
+};
+
+/**
+ * Lesson pagination constants
+ */
+export const LESSON_PAGINATION = {
+  /** Lessons requested per page for each dashboard section */
+  PAGE_SIZE: Number(import.meta.env.VITE_LESSON_PAGE_SIZE) || 20,
+  /** Largest page size the API accepts */
+  MAX_PAGE_SIZE: 100,
+  /** Safety limit on pages fetched when loading every lesson in a range */
+  MAX_RANGE_PAGES: 50,
+} as const;
+
+/**
+ * Virtualized rendering of lesson sections
+ * Large sections only render the rows near the viewport.
+ */
+export const VIRTUALIZATION = {
+  /** Whether large sections are virtualized; disable to compare against full rendering */
+  ENABLED: import.meta.env.VITE_VIRTUALIZE_LESSONS !== 'false',
+  /** Sections with fewer lessons than this render every card */
+  MIN_ITEMS: 60,
+  /** Row height assumed before a row has been measured, in pixels */
+  ESTIMATED_ROW_HEIGHT_PX: 260,
+  /** Extra rows rendered above and below the viewport */
+  OVERSCAN_ROWS: 3,
+} as const;
+
+/**
+ * Offline mode constants
+ */
+export const OFFLINE = {
+  /** IndexedDB database holding cached lessons and queued actions */
+  DB_NAME: 'tutor-portal',
+  DB_VERSION: 1,
+} as const;
+
+/**
+ * Live updates constants
+ */
+export const LIVE_UPDATES = {
+  /** Server-Sent Events endpoint streaming lesson events; live updates are off when unset */
+  URL: import.meta.env.VITE_LIVE_UPDATES_URL || '',
+  /** Event names sent by the server */
+  EVENTS: ['lesson.created', 'lesson.taken', 'lesson.changed'],
+  /** Wait before reconnecting with a new ticket after the stream closes */
+  RECONNECT_DELAY_MS: 5000,
+} as const;
+
+/**
+ * Background refresh constants
+ */
+export const BACKGROUND_REFRESH = {
+  /** Time between background refreshes of the dashboard, from VITE_REFRESH_INTERVAL_SECONDS; 0 turns it off */
+  INTERVAL_MS: (Number(import.meta.env.VITE_REFRESH_INTERVAL_SECONDS ?? 300) || 0) * 1000,
+  /** Refreshing on window focus is skipped if the lessons were updated more recently than this */
+  MIN_FOCUS_GAP_MS: 30 * 1000,
+  /** How often the "updated x min ago" label is re-rendered */
+  LABEL_TICK_MS: 30 * 1000,
+} as const;
+
+/**
+ * Lesson reminder constants
+ */
+export const REMINDERS = {
+  /** Lead times (minutes before the start) used until the tutor picks their own */
+  DEFAULT_LEAD_MINUTES: [60, 15],
+  /** Lead times offered in the settings */
+  LEAD_TIME_OPTIONS: [5, 10, 15, 30, 60, 120, 24 * 60],
+  /** Only reminders due within this window get a timer; later ones are picked up on the next pass */
+  SCHEDULE_WINDOW_MS: 24 * 60 * 60 * 1000,
+  /** How often the reminders are rescheduled even if the lessons do not change */
+  RESCHEDULE_INTERVAL_MS: 60 * 60 * 1000,
+  /** localStorage key shared by every tab, listing the reminders already shown */
+  SENT_STORAGE_KEY: 'lesson-reminders-sent',
+  /** Web Lock that serializes claiming reminders across tabs */
+  LOCK_NAME: 'lesson-reminders',
+} as const;
+
+/**
+ * Lesson report constants
+ */
+export const REPORTS = {
+  /** Wait this long after the last keystroke before autosaving a draft */
+  AUTOSAVE_DELAY_MS: 800,
+  /** Longest report section accepted, in characters */
+  MAX_SECTION_LENGTH: 5000,
+} as const;
+
+/**
+ * Analytics chart settings
+ */
+export const ANALYTICS = {
+  /** Chart colors per subject family, as SVG fill classes */
+  SUBJECT_COLORS: {
+    Minecraft: 'fill-emerald-500',
+    Roblox: 'fill-rose-500',
+    Python: 'fill-amber-500',
+    Web: 'fill-sky-500',
+  } as Record<SubjectFamily, string>,
+  /** Color for subjects outside the known families */
+  OTHER_SUBJECT_COLOR: 'fill-gray-400',
+} as const;
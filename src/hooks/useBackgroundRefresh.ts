@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { useLessonStore } from '../store/lessonStore';
+import { BACKGROUND_REFRESH } from '../constants';
+
+/**
+ * Quietly refresh the lessons while the component is mounted
+ *
+ * Refreshes every BACKGROUND_REFRESH.INTERVAL_MS while the page is visible, and
+ * when the window regains focus unless the lessons were updated very recently.
+ */
+export const useBackgroundRefresh = () => {
+  const refreshLessons = useLessonStore((state) => state.refreshLessons);
+
+  useEffect(() => {
+    const refreshIfStale = () => {
+      const { lastUpdated } = useLessonStore.getState();
+      if (!lastUpdated || Date.now() - new Date(lastUpdated).getTime() >= BACKGROUND_REFRESH.MIN_FOCUS_GAP_MS) {
+        refreshLessons();
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refreshIfStale();
+      }
+    };
+
+    window.addEventListener('focus', refreshIfStale);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const timer =
+      BACKGROUND_REFRESH.INTERVAL_MS > 0
+        ? setInterval(() => {
+            if (document.visibilityState === 'visible') {
+              refreshLessons();
+            }
+          }, BACKGROUND_REFRESH.INTERVAL_MS)
+        : undefined;
+
+    return () => {
+      window.removeEventListener('focus', refreshIfStale);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(timer);
+    };
+  }, [refreshLessons]);
+};
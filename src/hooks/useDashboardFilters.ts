@@ -0,0 +1,147 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import {
+  DATE_FILTER,
+  EMPTY_LESSON_FACETS,
+  FILTER_QUERY_PARAMS,
+  STATUS_FACETS,
+  STUDENT_COUNT_RANGES,
+  SUBJECT_FAMILIES,
+} from '../constants';
+import { LessonFacets, LessonStatus, StudentCountRange, SubjectFamily } from '../types';
+
+/**
+ * Dashboard filter state as read from the URL
+ */
+export interface DashboardFilters {
+  /** Selected month as a yyyy-MM key, or null */
+  month: string | null;
+  dateRange: { start: Date; end: Date } | null;
+  facets: LessonFacets;
+  fitsAvailability: boolean;
+  /** Only show historic lessons without a submitted report */
+  reportMissing: boolean;
+}
+
+/**
+ * Parse a date in the given format, returning null for missing or invalid values
+ */
+const parseDate = (value: string | null, dateFormat: string): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const date = parse(value, dateFormat, new Date());
+  return isValid(date) ? date : null;
+};
+
+/**
+ * Read a comma-separated list, keeping only the allowed values
+ */
+const parseList = <T extends string>(value: string | null, allowed: readonly T[]): T[] => {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').filter((item): item is T => (allowed as readonly string[]).includes(item));
+};
+
+const SUBJECT_VALUES: SubjectFamily[] = SUBJECT_FAMILIES.map(({ family }) => family);
+const STUDENT_COUNT_VALUES: StudentCountRange[] = STUDENT_COUNT_RANGES.map(({ range }) => range);
+
+/**
+ * Read the dashboard filters from query string parameters
+ * Unknown or malformed values are ignored, so hand-edited links still load.
+ */
+const readFilters = (params: URLSearchParams): DashboardFilters => {
+  const month = parseDate(params.get(FILTER_QUERY_PARAMS.MONTH), DATE_FILTER.MONTH_FORMAT);
+  const from = parseDate(params.get(FILTER_QUERY_PARAMS.FROM), DATE_FILTER.DAY_FORMAT);
+  const to = parseDate(params.get(FILTER_QUERY_PARAMS.TO), DATE_FILTER.DAY_FORMAT);
+
+  return {
+    month: month ? format(month, DATE_FILTER.MONTH_FORMAT) : null,
+    dateRange: from && to && from <= to ? { start: startOfDay(from), end: endOfDay(to) } : null,
+    facets: {
+      search: params.get(FILTER_QUERY_PARAMS.SEARCH) || '',
+      subjects: parseList(params.get(FILTER_QUERY_PARAMS.SUBJECTS), SUBJECT_VALUES),
+      statuses: parseList<LessonStatus>(params.get(FILTER_QUERY_PARAMS.STATUSES), STATUS_FACETS),
+      studentCounts: parseList(params.get(FILTER_QUERY_PARAMS.STUDENT_COUNTS), STUDENT_COUNT_VALUES),
+    },
+    fitsAvailability: params.get(FILTER_QUERY_PARAMS.FITS_AVAILABILITY) === '1',
+    reportMissing: params.get(FILTER_QUERY_PARAMS.REPORT_MISSING) === '1',
+  };
+};
+
+/**
+ * Write the dashboard filters to query string parameters, omitting empty ones
+ */
+const writeFilters = (filters: DashboardFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string) => {
+    if (value) {
+      params.set(key, value);
+    }
+  };
+  set(FILTER_QUERY_PARAMS.MONTH, filters.month || '');
+  if (filters.dateRange) {
+    set(FILTER_QUERY_PARAMS.FROM, format(filters.dateRange.start, DATE_FILTER.DAY_FORMAT));
+    set(FILTER_QUERY_PARAMS.TO, format(filters.dateRange.end, DATE_FILTER.DAY_FORMAT));
+  }
+  set(FILTER_QUERY_PARAMS.SEARCH, filters.facets.search);
+  set(FILTER_QUERY_PARAMS.SUBJECTS, filters.facets.subjects.join(','));
+  set(FILTER_QUERY_PARAMS.STATUSES, filters.facets.statuses.join(','));
+  set(FILTER_QUERY_PARAMS.STUDENT_COUNTS, filters.facets.studentCounts.join(','));
+  set(FILTER_QUERY_PARAMS.FITS_AVAILABILITY, filters.fitsAvailability ? '1' : '');
+  set(FILTER_QUERY_PARAMS.REPORT_MISSING, filters.reportMissing ? '1' : '');
+  return params;
+};
+
+/**
+ * useDashboardFilters hook - Keeps the dashboard filters in the URL query string
+ *
+ * Filters survive reloads and can be shared or bookmarked. Each filter change adds
+ * a history entry so back/forward move between filter states; typing in the search
+ * box replaces the current entry instead of adding one per keystroke.
+ *
+ * @returns The current filters and setters for each of them
+ */
+export const useDashboardFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+
+  const update = useCallback(
+    (changes: Partial<DashboardFilters>, replace: boolean = false) => {
+      setSearchParams(writeFilters({ ...filters, ...changes }), { replace });
+    },
+    [filters, setSearchParams]
+  );
+
+  /** Select a month (yyyy-MM), which replaces any date range; null clears it */
+  const setMonth = useCallback(
+    (month: string | null) => update({ month, dateRange: month ? null : filters.dateRange }),
+    [filters.dateRange, update]
+  );
+
+  /** Apply a date range, which replaces any selected month; null clears it */
+  const setDateRange = useCallback(
+    (dateRange: { start: Date; end: Date } | null) =>
+      update({ dateRange, month: dateRange ? null : filters.month }),
+    [filters.month, update]
+  );
+
+  const setFacets = useCallback(
+    (facets: LessonFacets) => update({ facets }, facets.search !== filters.facets.search),
+    [filters.facets.search, update]
+  );
+
+  const setFitsAvailability = useCallback((fitsAvailability: boolean) => update({ fitsAvailability }), [update]);
+
+  const setReportMissing = useCallback((reportMissing: boolean) => update({ reportMissing }), [update]);
+
+  const clearFilters = useCallback(
+    () =>
+      update({ month: null, dateRange: null, facets: EMPTY_LESSON_FACETS, fitsAvailability: false, reportMissing: false }),
+    [update]
+  );
+
+  return { filters, setMonth, setDateRange, setFacets, setFitsAvailability, setReportMissing, clearFilters };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import { useReminderStore } from '../store/reminderStore';
+import { buildReminderSchedule, isNotificationSupported, showLessonReminder } from '../services/reminders';
+import { REMINDERS } from '../constants';
+
+/**
+ * Schedule browser reminders for the tutor's upcoming lessons
+ *
+ * Rescheduled whenever the lessons or reminder settings change, and every
+ * REMINDERS.RESCHEDULE_INTERVAL_MS so reminders beyond the timer window are picked up.
+ * Does nothing until the tutor enables reminders and grants notification permission.
+ */
+export const useLessonReminders = () => {
+  const lessons = useLessonStore((state) => state.lessons);
+  const tutorName = useAuthStore((state) => state.user?.name);
+  const { enabled, leadTimes } = useReminderStore();
+  const [pass, setPass] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setPass((count) => count + 1), REMINDERS.RESCHEDULE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !tutorName || !isNotificationSupported() || Notification.permission !== 'granted') {
+      return;
+    }
+
+    const now = Date.now();
+    const timers = buildReminderSchedule(lessons, leadTimes, tutorName, new Date(now))
+      .filter((reminder) => reminder.fireAt - now <= REMINDERS.SCHEDULE_WINDOW_MS)
+      .map((reminder) => setTimeout(() => showLessonReminder(reminder), Math.max(0, reminder.fireAt - now)));
+
+    return () => timers.forEach(clearTimeout);
+  }, [lessons, tutorName, enabled, leadTimes, pass]);
+};
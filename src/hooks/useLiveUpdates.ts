@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import { connectLiveUpdates } from '../services/liveUpdates';
+import { LiveUpdatesStatus } from '../types';
+
+/**
+ * Stream lesson events into the lesson store while the component is mounted
+ *
+ * Connects to VITE_LIVE_UPDATES_URL once the user is logged in and disconnects
+ * on logout. Does nothing when live updates are not configured.
+ *
+ * @returns The connection status, e.g. to show a "Live" indicator
+ */
+export const useLiveUpdates = (): LiveUpdatesStatus => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const applyLiveEvent = useLessonStore((state) => state.applyLiveEvent);
+  const [status, setStatus] = useState<LiveUpdatesStatus>('disabled');
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    return connectLiveUpdates({
+      onEvent: applyLiveEvent,
+      onStatusChange: setStatus,
+    });
+  }, [isAuthenticated, applyLiveEvent]);
+
+  return status;
+};
@@ -26,6 +26,16 @@ const initializeTheme = () => {
 // Apply theme before rendering
 initializeTheme();
 
+// Cache the app shell so the portal opens offline (production builds only,
+// so the dev server is never served stale modules)
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(() => {
+      // Offline support is optional; the app works without the service worker
+    });
+  });
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, endOfDay, endOfMonth, format, parse, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import { useDashboardFilters } from '../hooks/useDashboardFilters';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import Layout from '../components/Layout';
+import FilterBar from '../components/FilterBar';
+import BarChart from '../components/BarChart';
+import DonutChart from '../components/DonutChart';
+import LineChart from '../components/LineChart';
+import { ANALYTICS, DATE_FILTER, MONTH_FILTER } from '../constants';
+import { filterVisibleLessons, getLessonAnalytics, getLessonWallClock, getMonthRange } from '../utils';
+
+/**
+ * Format a number of hours, keeping one decimal for part hours
+ */
+const formatHours = (hours: number) => `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+
+/**
+ * Analytics page component - Workload overview at /analytics
+ *
+ * Charts lessons and teaching hours per month, the split between subject
+ * families and the take rate of offered lessons, next to totals for the range.
+ * Uses the same month and date range filters as the Dashboard, read from the
+ * query string; without a filter it covers the months shown in the filter bar.
+ */
+const Analytics = () => {
+  const user = useAuthStore((state) => state.user);
+  const { lessons, fetchLessonsInRange, lessonMonths, fetchLessonMonths } = useLessonStore();
+  const { filters, setMonth, setDateRange, clearFilters } = useDashboardFilters();
+  const { month: selectedMonth, dateRange } = filters;
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(() => {
+    if (dateRange) {
+      return dateRange;
+    }
+    if (selectedMonth) {
+      return getMonthRange(parse(selectedMonth, DATE_FILTER.MONTH_FORMAT, new Date()));
+    }
+    const currentMonth = startOfMonth(new Date());
+    return {
+      start: subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK),
+      end: endOfMonth(addMonths(currentMonth, MONTH_FILTER.MONTHS_FORWARD)),
+    };
+  }, [dateRange, selectedMonth]);
+
+  // Every lesson in the range is needed, not just the pages loaded on the Dashboard
+  const rangeStart = range.start.getTime();
+  const rangeEnd = range.end.getTime();
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchLessonsInRange(new Date(rangeStart), new Date(rangeEnd))
+      .catch((error) => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to load lessons');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStart, rangeEnd, fetchLessonsInRange]);
+
+  // Hours, lessons and students only count what the user may see, but the take
+  // rate needs every offered lesson, including ones other tutors have taken
+  const visibleLessons = useMemo(() => filterVisibleLessons(lessons, user), [lessons, user]);
+  const analytics = useMemo(
+    () => getLessonAnalytics(visibleLessons, new Date(rangeStart), new Date(rangeEnd), lessons),
+    [visibleLessons, lessons, rangeStart, rangeEnd]
+  );
+  // Like the Dashboard, offer every month the API has lessons in, not only the loaded ones
+  useEffect(() => {
+    const currentMonth = startOfMonth(new Date());
+    fetchLessonMonths(
+      subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK),
+      endOfMonth(addMonths(currentMonth, MONTH_FILTER.MONTHS_FORWARD))
+    );
+  }, [fetchLessonMonths]);
+  const availableMonths = useMemo(
+    () =>
+      new Set([
+        ...lessonMonths,
+        ...visibleLessons.map((lesson) => format(getLessonWallClock(lesson), DATE_FILTER.MONTH_FORMAT)),
+      ]),
+    [lessonMonths, visibleLessons]
+  );
+
+  const monthLabel = (month: string) => format(parse(month, DATE_FILTER.MONTH_FORMAT, new Date()), 'MMM yy');
+
+  const stats = [
+    { label: 'Lessons', value: String(analytics.totalLessons) },
+    { label: 'Teaching hours', value: formatHours(analytics.totalHours) },
+    { label: 'Distinct students', value: String(analytics.distinctStudents) },
+    { label: 'Take rate', value: analytics.takeRate === null ? '—' : `${Math.round(analytics.takeRate * 100)}%` },
+  ];
+
+  return (
+    <Layout>
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100">Analytics</h1>
+        <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+          {format(range.start, 'MMM d, yyyy')} – {format(range.end, 'MMM d, yyyy')}
+          {loading && ' · Loading...'}
+        </p>
+      </div>
+
+      <FilterBar
+        onMonthChange={setMonth}
+        onDateRangeChange={(start, end) => setDateRange({ start: startOfDay(start), end: endOfDay(end) })}
+        onClearFilters={clearFilters}
+        selectedMonth={selectedMonth}
+        hasDateRange={dateRange !== null}
+        availableMonths={availableMonths}
+      />
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+            <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">{stat.label}</p>
+            <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+          <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Lessons per month</h2>
+          <BarChart
+            title="Lessons taken per month"
+            data={analytics.months.map((month) => ({ label: monthLabel(month.month), value: month.lessons }))}
+          />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+          <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Hours per month</h2>
+          <BarChart
+            title="Teaching hours per month"
+            data={analytics.months.map((month) => ({ label: monthLabel(month.month), value: month.hours }))}
+            formatValue={formatHours}
+            barClassName="fill-sky-500"
+          />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+          <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Subjects</h2>
+          {analytics.subjectFamilies.length > 0 ? (
+            <DonutChart
+              title="Teaching hours by subject family"
+              segments={analytics.subjectFamilies.map((stats) => ({
+                label: stats.family || 'Other',
+                value: stats.hours,
+                className: stats.family ? ANALYTICS.SUBJECT_COLORS[stats.family] : ANALYTICS.OTHER_SUBJECT_COLOR,
+              }))}
+              formatValue={formatHours}
+            />
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No lessons taken in this period.</p>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+          <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100">Take rate</h2>
+          <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Share of the lessons offered each month that were taken
+          </p>
+          <LineChart
+            title="Take rate of offered lessons per month"
+            data={analytics.months.map((month) => ({ label: monthLabel(month.month), value: month.takeRate }))}
+          />
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useAvailabilityStore } from '../store/availabilityStore';
+import Layout from '../components/Layout';
+import { WEEKDAY_NAMES } from '../constants';
+
+// Monday-first order for the editor, matching the calendar views
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Availability page component - Lets tutors declare their usual weekly hours
+ *
+ * The hours are stored locally and used on the dashboard to badge and filter
+ * available lessons that fit them.
+ */
+const Availability = () => {
+  const { slots, addSlot, removeSlot, clearSlots } = useAvailabilityStore();
+  const [day, setDay] = useState(1);
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('12:00');
+  const [error, setError] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      addSlot(day, start, end);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add hours');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100">My availability</h1>
+        <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+          Add the hours you usually teach each week. Available lessons inside these hours are marked on the dashboard. Hours are matched against each lesson's own time, as shown on the lesson (e.g. 10:00 SGT).
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleAdd}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-6"
+      >
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-3 sm:gap-4">
+          <div className="flex-1">
+            <label htmlFor="availability-day" className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Day
+            </label>
+            <select
+              id="availability-day"
+              value={day}
+              onChange={(e) => setDay(Number(e.target.value))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            >
+              {WEEKDAY_ORDER.map((weekday) => (
+                <option key={weekday} value={weekday}>
+                  {WEEKDAY_NAMES[weekday]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor="availability-start" className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              From
+            </label>
+            <input
+              id="availability-start"
+              type="time"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              required
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="availability-end" className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              To
+            </label>
+            <input
+              id="availability-end"
+              type="time"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              required
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div className="flex-shrink-0 w-full sm:w-auto">
+            <button
+              type="submit"
+              className="w-full sm:w-auto px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-medium whitespace-nowrap text-sm"
+            >
+              Add hours
+            </button>
+          </div>
+        </div>
+        {error && (
+          <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+            {error}
+          </div>
+        )}
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+        {slots.length === 0 ? (
+          <p className="text-center py-4 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+            No hours added yet
+          </p>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {WEEKDAY_ORDER.filter((weekday) => slots.some((slot) => slot.day === weekday)).map((weekday) => (
+                <li key={weekday} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 py-3">
+                  <span className="w-28 flex-shrink-0 text-sm font-medium text-gray-800 dark:text-gray-100">
+                    {WEEKDAY_NAMES[weekday]}
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {slots
+                      .filter((slot) => slot.day === weekday)
+                      .map((slot) => (
+                        <span
+                          key={slot.id}
+                          className="inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-xs sm:text-sm"
+                        >
+                          {slot.start}–{slot.end}
+                          <button
+                            type="button"
+                            onClick={() => removeSlot(slot.id)}
+                            className="p-0.5 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-800 transition"
+                            aria-label={`Remove ${WEEKDAY_NAMES[weekday]} ${slot.start}–${slot.end}`}
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </span>
+                      ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end pt-3 border-t border-gray-200 dark:border-gray-700">
+              <button
+                type="button"
+                onClick={clearSlots}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-sm"
+              >
+                Clear all
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Availability;
@@ -1,62 +1,118 @@
 import { useEffect, useState, useMemo } from 'react';
+import { useDashboardFilters } from '../hooks/useDashboardFilters';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useBackgroundRefresh } from '../hooks/useBackgroundRefresh';
 import { useAuthStore } from '../store/authStore';
 import { useLessonStore } from '../store/lessonStore';
-import { useThemeStore } from '../store/themeStore';
+import { useBusyStore } from '../store/busyStore';
+import { useAvailabilityStore } from '../store/availabilityStore';
 import FilterBar from '../components/FilterBar';
 import LessonSection from '../components/LessonSection';
 import Toast from '../components/Toast';
-import Sidebar from '../components/Sidebar';
-import Breadcrumb from '../components/Breadcrumb';
-import { startOfMonth, format, subMonths, addMonths } from 'date-fns';
+import Layout from '../components/Layout';
+import MonthCalendar from '../components/MonthCalendar';
+import ViewSwitcher from '../components/ViewSwitcher';
+import WeekView from '../components/WeekView';
+import ReleaseClassDialog from '../components/ReleaseClassDialog';
+import ConflictDialog from '../components/ConflictDialog';
+import BusyTimesPanel from '../components/BusyTimesPanel';
+import LastUpdated from '../components/LastUpdated';
+import { LessonOverlapError } from '../services/errors';
+import { downloadLessonsCalendar, expandBusyEvents } from '../utils/ical';
+import { startOfMonth, endOfMonth, startOfDay, endOfDay, format, subMonths, addMonths, parse } from 'date-fns';
 import { MONTH_FILTER, DATE_FILTER } from '../constants';
-import { filterTodayLessons, filterLessonsByDateRange, getMonthRange } from '../utils';
-import { LessonFilterType } from '../types';
+import {
+  filterTodayLessons,
+  filterLessonsByDateRange,
+  filterLessonsByFacets,
+  filterVisibleLessons,
+  findBusyConflicts,
+  findConflictingLessons,
+  fitsAvailability,
+  getMonthRange,
+  getCalendarGridRange,
+  getLessonEnd,
+  getLessonWallClock,
+  getWeekRange,
+  hasPermission,
+  isReportMissing,
+} from '../utils';
+import { DashboardView, Lesson, LessonFilterType } from '../types';
 
 /**
  * Dashboard component - Main page for tutors to view and manage their lessons
  * 
  * Features:
  * - Display lessons grouped by type (Today's, Available, Upcoming, Historic)
- * - Filter lessons by month or date range
- * - Take available classes
- * - Responsive sidebar navigation
- * - Theme toggle (light/dark mode)
+ * - Filter lessons by month or date range, search text and facets, kept in the URL
+ * - Load each section page by page from the API, with "load more" and infinite scroll
+ * - Switch between the card sections, a weekly timetable and a monthly calendar grid
+ * - Take available classes and release taken ones
+ * - Stream lesson changes live, so classes taken by other tutors leave Available right away
+ * - Refresh quietly on window focus and on a timer, showing when the lessons were last updated
+ * - Export the filtered upcoming lessons to an .ics calendar file
+ * - Flag or hide available lessons that clash with busy times imported from an .ics file
+ * - Badge available lessons that fit the tutor's weekly availability, or show only those
+ * - Show only historic lessons still missing their report
+ * - Shared page layout with responsive sidebar and theme toggle
  * 
  * @returns JSX element representing the dashboard
  */
 const Dashboard = () => {
-  const { user, logout } = useAuthStore();
-  const { lessons, loading, error, fetchLessonsData, takeClass, filteredLessons } = useLessonStore();
-  const { theme, toggleTheme } = useThemeStore();
+  const { user } = useAuthStore();
+  const {
+    lessons,
+    loading,
+    error,
+    sections,
+    lastUpdated,
+    refreshing,
+    refreshError,
+    fetchLessonsData,
+    refreshLessons,
+    clearRefreshError,
+    loadMoreLessons,
+    fetchLessonsInRange,
+    lessonMonths,
+    fetchLessonMonths,
+    takeClass,
+    releaseClass,
+    filteredLessons,
+  } = useLessonStore();
+  const { events: busyEvents, hideConflicting } = useBusyStore();
+  const availabilitySlots = useAvailabilityStore((state) => state.slots);
+  const liveStatus = useLiveUpdates();
+  useBackgroundRefresh();
   
-  const [selectedMonth, setSelectedMonth] = useState<number | null>(null);
-  const [dateRange, setDateRange] = useState<{ start: Date; end: Date } | null>(null);
+  // Filters live in the query string so they survive reloads and can be shared
+  const { filters, setMonth, setDateRange, setFacets, setFitsAvailability, setReportMissing, clearFilters } =
+    useDashboardFilters();
+  const { month: selectedMonth, dateRange, facets, fitsAvailability: fitsAvailabilityOnly, reportMissing } = filters;
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
-  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [view, setView] = useState<DashboardView>('cards');
+  const [calendarMonth, setCalendarMonth] = useState<Date>(() => startOfMonth(new Date()));
+  const [calendarWeek, setCalendarWeek] = useState<Date>(() => new Date());
+  const [releaseLessonId, setReleaseLessonId] = useState<string | null>(null);
+  const [overlap, setOverlap] = useState<{ lessonId: string; conflicts: Lesson[] } | null>(null);
 
-  // Fetch lessons data on component mount
-  // Note: fetchLessonsData is stable from Zustand store, but we include it in deps
-  // to satisfy exhaustive-deps rule. In practice, it won't cause re-renders.
-  useEffect(() => {
-    fetchLessonsData();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty deps array is safe here as fetchLessonsData is stable
-
-  // Apply theme to document
-  useEffect(() => {
-    const root = document.documentElement;
-    if (theme === 'dark') {
-      root.classList.add('dark');
-    } else {
-      root.classList.remove('dark');
-    }
-  }, [theme]);
+  // Lessons assigned to other tutors are hidden unless the role allows viewing them
+  const visibleLessons = useMemo(() => filterVisibleLessons(lessons, user), [lessons, user]);
+  const canTakeClass = hasPermission(user, 'takeClass');
 
-  const handleTakeClass = async (lessonId: string) => {
+  const handleTakeClass = async (lessonId: string, allowOverlap: boolean = false) => {
     try {
-      await takeClass(lessonId);
-      setToast({ message: 'Successfully took the class!', type: 'success' });
+      const result = await takeClass(lessonId, { allowOverlap });
+      setToast(
+        result === 'queued'
+          ? { message: "You're offline. The class will be claimed when you reconnect.", type: 'info' }
+          : { message: 'Successfully took the class!', type: 'success' }
+      );
     } catch (error) {
+      // A clash with the tutor's own lessons asks for confirmation instead of failing
+      if (error instanceof LessonOverlapError) {
+        setOverlap({ lessonId: error.lessonId, conflicts: error.conflicts });
+        return;
+      }
       setToast({ 
         message: error instanceof Error ? error.message : 'Failed to take class', 
         type: 'error' 
@@ -64,23 +120,96 @@ const Dashboard = () => {
     }
   };
 
-  const handleMonthChange = (monthIndex: number) => {
-    if (monthIndex === DATE_FILTER.CLEAR_MONTH_INDEX) {
-      setSelectedMonth(null);
-      setDateRange(null);
-    } else {
-      setSelectedMonth(monthIndex);
-      setDateRange(null);
+  /**
+   * Release the lesson picked in the release dialog
+   * Errors are re-thrown so the dialog can show them (e.g. the cutoff has passed)
+   */
+  const handleReleaseConfirm = async (reason: string) => {
+    if (!releaseLessonId) {
+      return;
     }
+    await releaseClass(releaseLessonId, reason);
+    setReleaseLessonId(null);
+    setToast({ message: 'Class released', type: 'success' });
   };
 
-  const handleDateRangeChange = (start: Date | null, end: Date | null) => {
-    if (start && end) {
-      setDateRange({ start, end });
-      setSelectedMonth(null);
-    } else {
+  /**
+   * Download the upcoming lessons matching the current filters as an .ics file
+   */
+  const handleExportCalendar = () => {
+    downloadLessonsCalendar(upcomingLessons, `lessons-${format(new Date(), 'yyyy-MM-dd')}.ics`);
+    setToast({
+      message: `Exported ${upcomingLessons.length} upcoming lesson${upcomingLessons.length === 1 ? '' : 's'}`,
+      type: 'success',
+    });
+  };
+
+  /**
+   * Get the first day of the selected month, or null if no month is selected
+   */
+  const selectedMonthStart = selectedMonth ? parse(selectedMonth, DATE_FILTER.MONTH_FORMAT, new Date()) : null;
+
+  // Keep the calendar grid on the month being filtered, including after back/forward
+  useEffect(() => {
+    if (selectedMonth) {
+      setCalendarMonth(parse(selectedMonth, DATE_FILTER.MONTH_FORMAT, new Date()));
+    }
+  }, [selectedMonth]);
+
+  // The API filters the sections by date, so reload them whenever the month or date range changes.
+  // The range is compared by its bounds because the filters are re-read from the URL on every change.
+  const queryRange = dateRange || (selectedMonthStart ? getMonthRange(selectedMonthStart) : null);
+  const queryRangeStart = queryRange?.start.getTime();
+  const queryRangeEnd = queryRange?.end.getTime();
+  useEffect(() => {
+    fetchLessonsData(queryRange || undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryRangeStart, queryRangeEnd]);
+
+  // The month filter offers every month the API has lessons in, not only the loaded ones
+  useEffect(() => {
+    const currentMonth = startOfMonth(new Date());
+    fetchLessonMonths(
+      subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK),
+      endOfMonth(addMonths(currentMonth, MONTH_FILTER.MONTHS_FORWARD))
+    );
+  }, [fetchLessonMonths]);
+
+  // A failed background refresh keeps the lessons on screen and only raises a toast
+  useEffect(() => {
+    if (refreshError) {
+      setToast({ message: `Couldn't refresh lessons: ${refreshError}`, type: 'error' });
+      clearRefreshError();
+    }
+  }, [refreshError, clearRefreshError]);
+
+  // The calendar views need every lesson in the visible grid, not just the loaded pages
+  const calendarRange = view === 'month' ? getCalendarGridRange(calendarMonth) : view === 'week' ? getWeekRange(calendarWeek) : null;
+  const calendarRangeStart = calendarRange?.start.getTime();
+  useEffect(() => {
+    if (calendarRange) {
+      fetchLessonsInRange(calendarRange.start, calendarRange.end).catch((error) => {
+        setToast({ message: error instanceof Error ? error.message : 'Failed to load lessons', type: 'error' });
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, calendarRangeStart]);
+
+  /**
+   * Narrow the date range to a single day picked in the calendar grid
+   * Clicking the already selected day clears the day filter again.
+   */
+  const handleCalendarDayClick = (day: Date) => {
+    const start = startOfDay(day);
+    if (dateRange && dateRange.start.getTime() === start.getTime() && dateRange.end.getTime() === endOfDay(day).getTime()) {
       setDateRange(null);
+      return;
     }
+    setDateRange({ start, end: endOfDay(day) });
+  };
+
+  const handleDateRangeChange = (start: Date, end: Date) => {
+    setDateRange({ start: startOfDay(start), end: endOfDay(end) });
   };
 
   /**
@@ -89,15 +218,8 @@ const Dashboard = () => {
    * This function applies multiple filters in sequence:
    * 1. First filters by lesson type (Historic, Upcoming, Available, or Today)
    * 2. Then applies month filter if a month is selected
-   * 3. Finally applies date range filter if provided
-   * 
-   * Month filter calculation:
-   * - The selectedMonth index represents a position in a 12-month array
-   * - Index 0-5: represents past months (5 months back to current month)
-   * - Index 6-11: represents future months (1-6 months forward)
-   * - The calculation converts the index to an actual date by:
-   *   - For past months: subtracting (MONTHS_BACK - index) months from current month
-   *   - For future months: adding (index - MONTHS_BACK) months to current month
+   * 3. Then applies date range filter if provided
+   * 4. Finally applies the search text and facets
    * 
    * @param type - Lesson type to filter by (Historic, Upcoming, Available, or 'Today' for today's lessons)
    * @returns Filtered array of lessons matching all applied filters
@@ -106,24 +228,12 @@ const Dashboard = () => {
     let filtered = filteredLessons(type, dateRange || undefined);
     
     // If month is selected, filter further
-    if (selectedMonth !== null) {
-      // Calculate target month based on index in 12 months array
-      // Index 0-5: past months (MONTHS_BACK months back to current)
-      // Index 6-11: future months (1-MONTHS_FORWARD months forward)
-      const currentMonth = startOfMonth(new Date());
-      let targetDate: Date;
-      if (selectedMonth <= MONTH_FILTER.PAST_MONTHS_THRESHOLD) {
-        // Past months: MONTHS_BACK - selectedMonth months ago
-        targetDate = subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK - selectedMonth);
-      } else {
-        // Future months: selectedMonth - MONTHS_BACK months forward
-        targetDate = addMonths(currentMonth, selectedMonth - MONTH_FILTER.MONTHS_BACK);
-      }
-      const { start: monthStart, end: monthEnd } = getMonthRange(targetDate);
+    if (selectedMonthStart) {
+      const { start: monthStart, end: monthEnd } = getMonthRange(selectedMonthStart);
       filtered = filterLessonsByDateRange(filtered, monthStart, monthEnd);
     }
     
-    return filtered;
+    return filterLessonsByFacets(filtered, facets);
   };
 
   /**
@@ -132,7 +242,8 @@ const Dashboard = () => {
    * This function:
    * 1. First filters lessons to only include those scheduled for today
    * 2. Then applies month filter if selected (same logic as getFilteredLessonsByType)
-   * 3. Finally applies date range filter if provided
+   * 3. Then applies date range filter if provided
+   * 4. Finally applies the search text and facets
    * 
    * Note: When both month and date range filters are applied, the date range filter
    * takes precedence and further narrows the results from the month filter.
@@ -141,28 +252,12 @@ const Dashboard = () => {
    */
   const getTodayLessons = () => {
     // Step 1: Filter to only today's lessons
-    let todayLessons = filterTodayLessons(lessons);
+    let todayLessons = filterTodayLessons(visibleLessons);
     
     // Step 2: Apply month filter if selected
-    // The month filter calculation converts the selectedMonth index to an actual date:
-    // - Index 0-5: past months (5 months back to current)
-    // - Index 6-11: future months (1-6 months forward)
-    if (selectedMonth !== null) {
-      const currentMonth = startOfMonth(new Date());
-      let targetDate: Date;
-      
-      if (selectedMonth <= MONTH_FILTER.PAST_MONTHS_THRESHOLD) {
-        // Past months: calculate how many months ago
-        // Example: selectedMonth = 3 means 2 months ago (5 - 3 = 2)
-        targetDate = subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK - selectedMonth);
-      } else {
-        // Future months: calculate how many months forward
-        // Example: selectedMonth = 8 means 3 months forward (8 - 5 = 3)
-        targetDate = addMonths(currentMonth, selectedMonth - MONTH_FILTER.MONTHS_BACK);
-      }
-      
-      // Get the full month range (start and end of the target month)
-      const { start: monthStart, end: monthEnd } = getMonthRange(targetDate);
+    if (selectedMonthStart) {
+      // Get the full month range (start and end of the selected month)
+      const { start: monthStart, end: monthEnd } = getMonthRange(selectedMonthStart);
       todayLessons = filterLessonsByDateRange(todayLessons, monthStart, monthEnd);
     }
     
@@ -172,14 +267,17 @@ const Dashboard = () => {
       todayLessons = filterLessonsByDateRange(todayLessons, dateRange.start, dateRange.end);
     }
     
-    return todayLessons;
+    // Step 4: Apply search text and facets
+    return filterLessonsByFacets(todayLessons, facets);
   };
 
   /**
    * Get available months (months with data) from the filter range
    * 
    * This memoized value calculates which months have lesson data within the
-   * filter range (current month ± MONTHS_BACK/MONTHS_FORWARD months).
+   * filter range (current month ± MONTHS_BACK/MONTHS_FORWARD months). The months
+   * the API reports are combined with the months of the loaded lessons, so months
+   * whose pages have not been loaded yet can still be picked.
    * 
    * The result is a Set of month keys in 'yyyy-MM' format, which is used to:
    * - Enable/disable month filter buttons in the FilterBar
@@ -199,181 +297,253 @@ const Dashboard = () => {
     const monthsAgo = subMonths(currentMonth, MONTH_FILTER.MONTHS_BACK);
     const monthsForward = addMonths(currentMonth, MONTH_FILTER.MONTHS_FORWARD);
     
-    const monthsSet = new Set<string>();
+    const monthsSet = new Set<string>(lessonMonths);
     
     // Iterate through all lessons and collect months that have data
-    lessons.forEach(lesson => {
-      const lessonDate = new Date(lesson.date);
+    visibleLessons.forEach(lesson => {
+      // Months follow the lesson's own timezone, like the dates shown on it
+      const lessonDate = getLessonWallClock(lesson);
       const lessonMonth = startOfMonth(lessonDate);
       
       // Check if lesson is within the filter range
       if (lessonMonth >= monthsAgo && lessonMonth <= monthsForward) {
         // Add month key in 'yyyy-MM' format for easy lookup
-        const monthKey = format(lessonDate, 'yyyy-MM');
+        const monthKey = format(lessonDate, DATE_FILTER.MONTH_FORMAT);
         monthsSet.add(monthKey);
       }
     });
     
     return monthsSet;
-  }, [lessons]);
+  }, [visibleLessons, lessonMonths]);
+
+  /**
+   * Paging props for a section: its loading state and "load more" action
+   */
+  const getSectionPaging = (type: LessonFilterType) => ({
+    loading: sections[type].loading,
+    error: sections[type].error,
+    hasMore: sections[type].nextCursor !== null,
+    onLoadMore: () => loadMoreLessons(type),
+  });
 
-  const historicLessons = getFilteredLessonsByType('Historic');
+  const allHistoricLessons = getFilteredLessonsByType('Historic');
+  const historicLessons = reportMissing ? allHistoricLessons.filter(isReportMissing) : allHistoricLessons;
   const upcomingLessons = getFilteredLessonsByType('Upcoming');
-  const availableLessons = getFilteredLessonsByType('Available');
+  const filteredAvailableLessons = getFilteredLessonsByType('Available');
+  // Busy blocks are only expanded over the time span of the available lessons,
+  // and only again when that span or the imported events change
+  const busySpanStart = filteredAvailableLessons.length > 0
+    ? Math.min(...filteredAvailableLessons.map((lesson) => new Date(lesson.date).getTime()))
+    : null;
+  const busySpanEnd = filteredAvailableLessons.length > 0
+    ? Math.max(...filteredAvailableLessons.map((lesson) => getLessonEnd(lesson).getTime()))
+    : null;
+  const busyBlocks = useMemo(
+    () =>
+      busyEvents.length > 0 && busySpanStart !== null && busySpanEnd !== null
+        ? expandBusyEvents(busyEvents, new Date(busySpanStart), new Date(busySpanEnd))
+        : [],
+    [busyEvents, busySpanStart, busySpanEnd]
+  );
+  const availableBusyConflicts = new Map(
+    filteredAvailableLessons.map((lesson) => [lesson.id, findBusyConflicts(lesson, busyBlocks)])
+  );
+  const busyClashCount = filteredAvailableLessons.filter(
+    (lesson) => (availableBusyConflicts.get(lesson.id) || []).length > 0
+  ).length;
+  const availabilityMatches = new Set(
+    filteredAvailableLessons
+      .filter((lesson) => fitsAvailability(lesson, availabilitySlots))
+      .map((lesson) => lesson.id)
+  );
+  const availableLessons = filteredAvailableLessons.filter(
+    (lesson) =>
+      !(hideConflicting && (availableBusyConflicts.get(lesson.id) || []).length > 0) &&
+      !(fitsAvailabilityOnly && !availabilityMatches.has(lesson.id))
+  );
+  // Flag available lessons that would clash with the tutor's upcoming lessons before anyone clicks
+  const availableConflicts = new Map(
+    availableLessons.map((lesson) => [lesson.id, findConflictingLessons(lesson, lessons, user?.name)])
+  );
   const todayLessons = getTodayLessons();
+  // The calendar shows every lesson in the visible grid, using the same store filter as the cards
+  const calendarLessons = filterLessonsByFacets(filteredLessons(undefined, getCalendarGridRange(calendarMonth)), facets);
+  const weekLessons = filterLessonsByFacets(filteredLessons(undefined, getWeekRange(calendarWeek)), facets);
+  const overlapLesson = overlap ? lessons.find((lesson) => lesson.id === overlap.lessonId) : undefined;
+  const releaseLesson = releaseLessonId ? lessons.find((lesson) => lesson.id === releaseLessonId) : undefined;
+  // Only a single-day range is highlighted in the calendar
+  const selectedCalendarDay =
+    dateRange && format(dateRange.start, 'yyyy-MM-dd') === format(dateRange.end, 'yyyy-MM-dd')
+      ? dateRange.start
+      : null;
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
-      {/* Top Navigation Bar */}
-      <nav className="bg-white dark:bg-gray-800 shadow-sm dark:shadow-gray-900/50 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
-        <div className="px-3 sm:px-4 lg:px-8">
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0 py-3 sm:py-0 sm:h-16">
-            <div className="flex items-center gap-3 w-full sm:w-auto">
-              {/* Hamburger menu button for mobile */}
-              <button
-                onClick={() => setSidebarOpen(true)}
-                className="lg:hidden p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
-                aria-label="Open menu"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-                </svg>
-              </button>
-              <div className="flex items-center gap-2 sm:gap-3">
-                {/* Logo */}
-                <svg
-                  className="w-8 h-8 sm:w-10 sm:h-10 text-indigo-600 dark:text-indigo-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                  xmlns="http://www.w3.org/2000/svg"
+    <Layout>
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      {overlap && overlapLesson && (
+        <ConflictDialog
+          lesson={overlapLesson}
+          conflicts={overlap.conflicts}
+          onOverride={() => {
+            setOverlap(null);
+            handleTakeClass(overlap.lessonId, true);
+          }}
+          onCancel={() => setOverlap(null)}
+        />
+      )}
+
+      {releaseLesson && (
+        <ReleaseClassDialog
+          lesson={releaseLesson}
+          onConfirm={handleReleaseConfirm}
+          onCancel={() => setReleaseLessonId(null)}
+        />
+      )}
+
+      {loading && (
+        <div className="text-center py-8 sm:py-12">
+          <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          <p className="mt-3 sm:mt-4 text-sm sm:text-base text-gray-600 dark:text-gray-400">Loading...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && (
+        <>
+          <FilterBar
+            onMonthChange={setMonth}
+            onDateRangeChange={handleDateRangeChange}
+            onClearFilters={clearFilters}
+            selectedMonth={selectedMonth}
+            hasDateRange={dateRange !== null}
+            availableMonths={availableMonths}
+            fitsAvailability={fitsAvailabilityOnly}
+            onFitsAvailabilityChange={canTakeClass ? setFitsAvailability : undefined}
+            facets={facets}
+            onFacetsChange={setFacets}
+          />
+
+          <div className="flex flex-wrap items-center justify-end gap-2 sm:gap-3 mb-4 sm:mb-6">
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3 mr-auto">
+              {liveStatus !== 'disabled' && (
+                <span
+                  className="inline-flex items-center gap-1.5 text-xs sm:text-sm text-gray-600 dark:text-gray-400"
+                  title={liveStatus === 'open' ? 'Lessons update as they change' : 'Lessons may be out of date'}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"
-                  />
-                </svg>
-                <h1 className="text-base sm:text-lg lg:text-xl font-bold text-gray-800 dark:text-white">
-                  Champ Code Academy
-                </h1>
-              </div>
-            </div>
-            <div className="flex items-center gap-2 sm:gap-4 w-full sm:w-auto">
-              {/* Theme Toggle Button */}
-              <button
-                onClick={toggleTheme}
-                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-600 dark:text-gray-300"
-                aria-label="Toggle theme"
-              >
-                {theme === 'light' ? (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z"
-                    />
-                  </svg>
-                ) : (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z"
-                    />
-                  </svg>
-                )}
-              </button>
-              
-              <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-300 truncate flex-1 sm:flex-none">
-                Welcome, {user?.name}
-              </span>
-              <button
-                onClick={logout}
-                className="px-3 sm:px-4 py-1.5 sm:py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-xs sm:text-sm font-medium whitespace-nowrap"
-              >
-                Logout
-              </button>
+                  <span
+                    className={`h-2 w-2 rounded-full ${
+                      liveStatus === 'open' ? 'bg-green-500 animate-pulse' : 'bg-gray-400 dark:bg-gray-500'
+                    }`}
+                  ></span>
+                  {{ open: 'Live', connecting: 'Connecting...', closed: 'Live updates stopped' }[liveStatus]}
+                </span>
+              )}
+              <LastUpdated lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refreshLessons} />
             </div>
+            <button
+              type="button"
+              onClick={handleExportCalendar}
+              disabled={upcomingLessons.length === 0}
+              title="Download the upcoming lessons matching the filters as an .ics file"
+              className="px-3 sm:px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition font-medium text-xs sm:text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Export to calendar
+            </button>
+            <ViewSwitcher view={view} onChange={setView} />
           </div>
-        </div>
-      </nav>
-
-      {/* Content area with sidebar and main content */}
-      <div className="flex flex-1 min-h-0">
-        {/* Sidebar */}
-        <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
-
-        {/* Main content area */}
-        <div className="flex-1 flex flex-col min-w-0">
-          {/* Toast Notification */}
-          {toast && (
-            <Toast
-              message={toast.message}
-              type={toast.type}
-              onClose={() => setToast(null)}
+
+          {view === 'week' && (
+            <WeekView
+              week={calendarWeek}
+              lessons={weekLessons}
+              onWeekChange={setCalendarWeek}
+              onTakeClass={canTakeClass ? handleTakeClass : undefined}
             />
           )}
 
-          {/* Main Content */}
-          <main className="flex-1 max-w-7xl mx-auto w-full px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8">
-            <Breadcrumb />
-            
-            {loading && (
-          <div className="text-center py-8 sm:py-12">
-            <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
-            <p className="mt-3 sm:mt-4 text-sm sm:text-base text-gray-600 dark:text-gray-400">Loading...</p>
-          </div>
-        )}
-
-        {error && (
-          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
-            {error}
-          </div>
-        )}
-
-        {!loading && !error && (
-          <>
-            <FilterBar
-              onMonthChange={handleMonthChange}
-              onDateRangeChange={handleDateRangeChange}
-              selectedMonth={selectedMonth}
-              availableMonths={availableMonths}
+          {view === 'month' && (
+            <MonthCalendar
+              month={calendarMonth}
+              lessons={calendarLessons}
+              selectedDate={selectedCalendarDay}
+              onMonthChange={setCalendarMonth}
+              onDayClick={handleCalendarDayClick}
             />
+          )}
 
-            <LessonSection
-              title="Today's Lessons"
-              lessons={todayLessons}
-              emptyMessage="No lessons today"
-            />
+          {view === 'cards' && (
+            <>
+              <LessonSection
+                title="Today's Lessons"
+                lessons={todayLessons}
+                emptyMessage="No lessons today"
+                {...getSectionPaging('Today')}
+              />
 
-            <LessonSection
-              title="Available Lessons"
-              lessons={availableLessons}
-              onTakeClass={handleTakeClass}
-              emptyMessage="No available lessons"
-            />
+              {canTakeClass && <BusyTimesPanel clashCount={busyClashCount} />}
 
-            <LessonSection
-              title="Upcoming Lessons"
-              lessons={upcomingLessons}
-              emptyMessage="No upcoming lessons"
-            />
+              <LessonSection
+                title="Available Lessons"
+                lessons={availableLessons}
+                conflicts={availableConflicts}
+                busyConflicts={availableBusyConflicts}
+                availabilityMatches={availabilityMatches}
+                onTakeClass={canTakeClass ? handleTakeClass : undefined}
+                emptyMessage={
+                  fitsAvailabilityOnly && availabilitySlots.length === 0
+                    ? 'Add your weekly hours on the Availability page to use this filter'
+                    : 'No available lessons'
+                }
+                {...getSectionPaging('Available')}
+              />
 
-            <LessonSection
-              title="Historic Lessons"
-              lessons={historicLessons}
-              emptyMessage="No historic lessons"
-            />
-          </>
-        )}
-          </main>
-        </div>
-      </div>
-    </div>
+              <LessonSection
+                title="Upcoming Lessons"
+                lessons={upcomingLessons}
+                onReleaseClass={setReleaseLessonId}
+                emptyMessage="No upcoming lessons"
+                {...getSectionPaging('Upcoming')}
+              />
+
+              <LessonSection
+                title="Historic Lessons"
+                lessons={historicLessons}
+                emptyMessage={reportMissing ? 'Every loaded historic lesson has a report' : 'No historic lessons'}
+                headerActions={
+                  <button
+                    type="button"
+                    onClick={() => setReportMissing(!reportMissing)}
+                    aria-pressed={reportMissing}
+                    title="Only show historic lessons without a submitted report"
+                    className={`px-3 py-1.5 rounded-lg transition text-xs sm:text-sm font-medium ${
+                      reportMissing
+                        ? 'bg-amber-500 dark:bg-amber-600 text-white'
+                        : 'bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/50'
+                    }`}
+                  >
+                    Report missing ({allHistoricLessons.filter(isReportMissing).length})
+                  </button>
+                }
+                {...getSectionPaging('Historic')}
+              />
+            </>
+          )}
+        </>
+      )}
+    </Layout>
   );
 };
 
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { addMonths, format, isValid, parse, startOfMonth, subMonths } from 'date-fns';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import { usePayRatesStore } from '../store/payRatesStore';
+import Layout from '../components/Layout';
+import { downloadStatementCsv } from '../utils/csv';
+import { DATE_FILTER, FILTER_QUERY_PARAMS } from '../constants';
+import { formatCurrency, formatLessonDate, formatLessonTime, getEarningsStatement, getMonthRange } from '../utils';
+
+/**
+ * Earnings page component - Monthly pay statement at /earnings
+ *
+ * Prices the tutor's completed and confirmed lessons for the month with their
+ * pay rates. Completed lessons are realised pay; confirmed lessons are added to
+ * the projected total. The month is kept in the query string and the statement
+ * can be downloaded as a CSV.
+ */
+const Earnings = () => {
+  const user = useAuthStore((state) => state.user);
+  const { lessons, fetchLessonsInRange } = useLessonStore();
+  const { rates, loading: ratesLoading, error: ratesError, fetchRates } = usePayRatesStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthParam = parse(searchParams.get(FILTER_QUERY_PARAMS.MONTH) || '', DATE_FILTER.MONTH_FORMAT, new Date());
+  const monthStart = startOfMonth(isValid(monthParam) ? monthParam : new Date());
+  const month = format(monthStart, DATE_FILTER.MONTH_FORMAT);
+
+  const setMonth = (date: Date) => {
+    setSearchParams({ [FILTER_QUERY_PARAMS.MONTH]: format(date, DATE_FILTER.MONTH_FORMAT) });
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { start, end } = getMonthRange(parse(month, DATE_FILTER.MONTH_FORMAT, new Date()));
+    setLoading(true);
+    setError(null);
+    fetchLessonsInRange(start, end)
+      .catch((error) => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to load lessons');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [month, fetchLessonsInRange]);
+
+  const statement = useMemo(
+    () => (rates && user ? getEarningsStatement(lessons, rates, month, user.name) : null),
+    [lessons, rates, month, user]
+  );
+
+  const money = (amount: number) => formatCurrency(amount, statement?.currency || 'USD');
+
+  return (
+    <Layout>
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 mb-4 sm:mb-6">
+        <div>
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100">Earnings</h1>
+          <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+            Estimated pay for your completed and confirmed lessons
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setMonth(subMonths(monthStart, 1))}
+            className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+            aria-label="Previous month"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <span className="min-w-[9rem] text-center font-semibold text-gray-800 dark:text-gray-100">
+            {format(monthStart, 'MMMM yyyy')}
+          </span>
+          <button
+            type="button"
+            onClick={() => setMonth(addMonths(monthStart, 1))}
+            className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+            aria-label="Next month"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => statement && downloadStatementCsv(statement, `earnings-${month}.csv`)}
+            disabled={!statement || statement.lines.length === 0}
+            className="ml-2 px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition font-medium text-sm disabled:opacity-60 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      {(error || ratesError) && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
+          {error || ratesError}
+        </div>
+      )}
+
+      {!statement ? (
+        ratesLoading && (
+          <div className="text-center py-8 sm:py-12">
+            <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+            <p className="mt-3 sm:mt-4 text-sm sm:text-base text-gray-600 dark:text-gray-400">Loading...</p>
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Realised</p>
+              <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">{money(statement.realisedTotal)}</p>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">Completed lessons</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Projected</p>
+              <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">{money(statement.projectedTotal)}</p>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">Including confirmed lessons</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Hours</p>
+              <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">
+                {statement.realisedHours} / {statement.projectedHours}
+              </p>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">Realised / projected</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Lessons</p>
+              <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">{statement.lines.length}</p>
+              {loading && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">Loading...</p>}
+            </div>
+          </div>
+
+          {statement.lines.length === 0 ? (
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6 sm:p-8 text-center text-gray-500 dark:text-gray-400 text-sm sm:text-base">
+              No completed or confirmed lessons this month.
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-3 sm:px-4 py-3">Lesson</th>
+                    <th className="px-3 sm:px-4 py-3 text-right">Students</th>
+                    <th className="px-3 sm:px-4 py-3 text-right">Hours</th>
+                    <th className="px-3 sm:px-4 py-3 text-right">Rate</th>
+                    <th className="px-3 sm:px-4 py-3 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {statement.lines.map((line) => (
+                    <tr key={line.lesson.id} className="text-gray-700 dark:text-gray-300">
+                      <td className="px-3 sm:px-4 py-2.5">
+                        <Link
+                          to={`/lessons/${line.lesson.id}`}
+                          className="font-medium text-gray-800 dark:text-gray-100 hover:text-indigo-600 dark:hover:text-indigo-400 transition"
+                        >
+                          {line.lesson.subject}
+                        </Link>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatLessonDate(line.lesson)} {formatLessonTime(line.lesson)}
+                        </p>
+                      </td>
+                      <td className="px-3 sm:px-4 py-2.5 text-right">{line.lesson.students.length}</td>
+                      <td className="px-3 sm:px-4 py-2.5 text-right">{line.hours.toFixed(2)}</td>
+                      <td className="px-3 sm:px-4 py-2.5 text-right whitespace-nowrap">
+                        {money(line.hourlyRate)}
+                        {line.hourlyBonus > 0 && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">+{money(line.hourlyBonus)} group</span>
+                        )}
+                      </td>
+                      <td className="px-3 sm:px-4 py-2.5 text-right whitespace-nowrap">
+                        <span className="font-medium text-gray-800 dark:text-gray-100">{money(line.amount)}</span>
+                        <span
+                          className={`block text-xs ${
+                            line.realised ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'
+                          }`}
+                        >
+                          {line.realised ? 'Realised' : 'Projected'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t-2 border-gray-200 dark:border-gray-700 font-semibold text-gray-800 dark:text-gray-100">
+                  <tr>
+                    <td className="px-3 sm:px-4 py-2.5" colSpan={2}>Realised total</td>
+                    <td className="px-3 sm:px-4 py-2.5 text-right">{statement.realisedHours.toFixed(2)}</td>
+                    <td></td>
+                    <td className="px-3 sm:px-4 py-2.5 text-right whitespace-nowrap">{money(statement.realisedTotal)}</td>
+                  </tr>
+                  <tr>
+                    <td className="px-3 sm:px-4 py-2.5" colSpan={2}>Projected total</td>
+                    <td className="px-3 sm:px-4 py-2.5 text-right">{statement.projectedHours.toFixed(2)}</td>
+                    <td></td>
+                    <td className="px-3 sm:px-4 py-2.5 text-right whitespace-nowrap">{money(statement.projectedTotal)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </Layout>
+  );
+};
+
+export default Earnings;
@@ -0,0 +1,36 @@
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+
+/**
+ * Forbidden page component (403)
+ *
+ * Shown in place of a route when the logged-in user's role does not grant
+ * the permission the route requires.
+ */
+const Forbidden = () => {
+  const user = useAuthStore((state) => state.user);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg dark:shadow-gray-900/50 p-6 sm:p-8 text-center">
+        <p className="text-5xl sm:text-6xl font-bold text-indigo-600 dark:text-indigo-400 mb-2">403</p>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          Access denied
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mb-6">
+          {user
+            ? `Your role (${user.role}) does not have permission to view this page.`
+            : 'You do not have permission to view this page.'}
+        </p>
+        <Link
+          to="/dashboard"
+          className="inline-block px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-medium text-sm sm:text-base"
+        >
+          Back to Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -0,0 +1,323 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import Layout from '../components/Layout';
+import Forbidden from './Forbidden';
+import Toast from '../components/Toast';
+import ReleaseClassDialog from '../components/ReleaseClassDialog';
+import ConflictDialog from '../components/ConflictDialog';
+import AttendancePanel from '../components/AttendancePanel';
+import ReportEditor from '../components/ReportEditor';
+import { LessonOverlapError } from '../services/errors';
+import { downloadLessonsCalendar } from '../utils/ical';
+import { Lesson, LessonAttendance, LessonReportContent } from '../types';
+import { LESSON_STATUS_COLORS } from '../constants';
+import {
+  canMarkLessonDone,
+  canRecordAttendance,
+  canReleaseLesson,
+  canWriteReport,
+  filterVisibleLessons,
+  formatLessonDate,
+  formatLessonTime,
+  getReleaseCutoffMessage,
+  hasPermission,
+  isPastReleaseDeadline,
+} from '../utils';
+
+/**
+ * LessonDetail page component - Shows a single lesson at /lessons/:id
+ *
+ * Loads the lesson from the store, or fetches it by id when it has not been
+ * loaded yet (e.g. when the page is opened from a shared link). Shows the full
+ * lesson details and the actions that apply to the lesson's status, plus the
+ * attendance panel for taken lessons from today or earlier and the report
+ * editor for historic lessons. If the lesson disappears from the store while
+ * open, the page says it is no longer available. Lessons the user may not see
+ * show the 403 page.
+ */
+const LessonDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const user = useAuthStore((state) => state.user);
+  const { lessons, fetchLessonById, takeClass, completeLesson, releaseClass, saveAttendance, submitReport } = useLessonStore();
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<'take' | 'complete' | null>(null);
+  const [showReleaseDialog, setShowReleaseDialog] = useState(false);
+  const [overlapConflicts, setOverlapConflicts] = useState<Lesson[] | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  // Read the lesson from the store so it updates after actions are applied
+  const lesson = lessons.find((l) => l.id === id);
+
+  // Remember which lesson has been shown, so a lesson that later drops out of the
+  // store (e.g. it was cancelled while taking it) is reported instead of a blank page
+  const [shownId, setShownId] = useState<string | null>(null);
+  useEffect(() => {
+    if (lesson) {
+      setShownId(lesson.id);
+    }
+  }, [lesson]);
+  const isGone = !lesson && shownId === id;
+
+  useEffect(() => {
+    if (lesson) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchLessonById(id)
+      .catch((error) => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to load lesson');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only refetch when the route id changes; the store lookup above covers updates
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const runAction = async (action: 'take' | 'complete', allowOverlap: boolean = false) => {
+    setPendingAction(action);
+    try {
+      if (action === 'take') {
+        const result = await takeClass(id, { allowOverlap });
+        setToast(
+          result === 'queued'
+            ? { message: "You're offline. The class will be claimed when you reconnect.", type: 'info' }
+            : { message: 'Successfully took the class!', type: 'success' }
+        );
+      } else {
+        await completeLesson(id);
+        setToast({ message: 'Lesson marked as done', type: 'success' });
+      }
+    } catch (error) {
+      // A clash with the tutor's own lessons asks for confirmation instead of failing
+      if (error instanceof LessonOverlapError) {
+        setOverlapConflicts(error.conflicts);
+        return;
+      }
+      setToast({
+        message: error instanceof Error ? error.message : 'Action failed',
+        type: 'error',
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  /**
+   * Release the lesson from the confirmation dialog
+   * Errors are re-thrown so the dialog can show them (e.g. the cutoff has passed)
+   */
+  const handleReleaseConfirm = async (reason: string) => {
+    await releaseClass(id, reason);
+    setShowReleaseDialog(false);
+    setToast({ message: 'Class released', type: 'success' });
+  };
+
+  /**
+   * Save attendance from the attendance panel
+   * Errors are re-thrown so the panel can show them
+   */
+  const handleSaveAttendance = async (attendance: LessonAttendance) => {
+    await saveAttendance(id, attendance);
+    setToast({ message: 'Attendance saved', type: 'success' });
+  };
+
+  /**
+   * Submit the report from the report editor
+   * Errors are re-thrown so the editor can show them and keep the draft
+   */
+  const handleSubmitReport = async (report: LessonReportContent) => {
+    await submitReport(id, report);
+    setToast({ message: 'Report submitted', type: 'success' });
+  };
+
+  const isVisible = lesson ? filterVisibleLessons([lesson], user).length > 0 : false;
+  const canTake = lesson?.type === 'Available' && hasPermission(user, 'takeClass');
+  const canComplete = lesson ? canMarkLessonDone(lesson, user) : false;
+  const canRelease = lesson ? canReleaseLesson(lesson, user) : false;
+  const canTakeAttendance = lesson ? canRecordAttendance(lesson, user) : false;
+  const canReport = lesson ? canWriteReport(lesson, user) : false;
+
+  // Lessons of other tutors get the same 403 page as routes the role cannot open
+  if (lesson && !isVisible) {
+    return <Forbidden />;
+  }
+
+  return (
+    <Layout>
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      {lesson && overlapConflicts && (
+        <ConflictDialog
+          lesson={lesson}
+          conflicts={overlapConflicts}
+          onOverride={() => {
+            setOverlapConflicts(null);
+            runAction('take', true);
+          }}
+          onCancel={() => setOverlapConflicts(null)}
+        />
+      )}
+
+      {lesson && showReleaseDialog && (
+        <ReleaseClassDialog
+          lesson={lesson}
+          onConfirm={handleReleaseConfirm}
+          onCancel={() => setShowReleaseDialog(false)}
+        />
+      )}
+
+      {loading && (
+        <div className="text-center py-8 sm:py-12">
+          <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          <p className="mt-3 sm:mt-4 text-sm sm:text-base text-gray-600 dark:text-gray-400">Loading...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
+
+      {isGone && (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6 sm:p-8 text-center text-gray-500 dark:text-gray-400 text-sm sm:text-base">
+          This lesson is no longer available.{' '}
+          <Link to="/dashboard" className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+            Back to Dashboard
+          </Link>
+        </div>
+      )}
+
+      {lesson && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-4 sm:p-6 lg:p-8">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-6">
+            <div className="min-w-0">
+              <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100 break-words">
+                {lesson.subject}
+              </h1>
+              <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+                {formatLessonDate(lesson)} {formatLessonTime(lesson)}
+              </p>
+            </div>
+            <span
+              className={`self-start px-3 py-1 rounded-full text-xs sm:text-sm font-medium flex-shrink-0 ${LESSON_STATUS_COLORS[lesson.status]}`}
+            >
+              {lesson.status}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 mb-6">
+            <div>
+              <dt className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Lesson ID</dt>
+              <dd className="mt-1 text-sm sm:text-base text-gray-800 dark:text-gray-100">{lesson.id}</dd>
+            </div>
+            <div>
+              <dt className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Type</dt>
+              <dd className="mt-1 text-sm sm:text-base text-gray-800 dark:text-gray-100">{lesson.type}</dd>
+            </div>
+            <div>
+              <dt className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">Tutor</dt>
+              <dd className="mt-1 text-sm sm:text-base text-gray-800 dark:text-gray-100">
+                {lesson.tutor || 'Unassigned'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">
+                Students ({lesson.students.length})
+              </dt>
+              <dd className="mt-1 text-sm sm:text-base text-gray-800 dark:text-gray-100">
+                {lesson.students.length > 0
+                  ? lesson.students.map((student, index) => (
+                      <Fragment key={student}>
+                        {index > 0 && ', '}
+                        <Link
+                          to={`/students/${encodeURIComponent(student)}`}
+                          className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                        >
+                          {student}
+                        </Link>
+                      </Fragment>
+                    ))
+                  : 'No students'}
+              </dd>
+            </div>
+          </dl>
+
+          {canTakeAttendance && <AttendancePanel lesson={lesson} onSave={handleSaveAttendance} />}
+
+          {canReport && <ReportEditor key={lesson.id} lesson={lesson} onSubmit={handleSubmitReport} />}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            {canTake && (
+              <button
+                onClick={() => runAction('take')}
+                disabled={pendingAction !== null}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'take' ? 'Taking...' : 'Take Class'}
+              </button>
+            )}
+            {canComplete && (
+              <button
+                onClick={() => runAction('complete')}
+                disabled={pendingAction !== null}
+                className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'complete' ? 'Saving...' : 'Mark as Done'}
+              </button>
+            )}
+            {canRelease && lesson && (
+              <button
+                onClick={() => setShowReleaseDialog(true)}
+                disabled={pendingAction !== null || isPastReleaseDeadline(lesson)}
+                title={isPastReleaseDeadline(lesson) ? getReleaseCutoffMessage() : undefined}
+                className="px-6 py-2 bg-white dark:bg-gray-800 text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Release Class
+              </button>
+            )}
+            <button
+              onClick={() => downloadLessonsCalendar([lesson], `lesson-${lesson.id}.ics`)}
+              className="px-6 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base"
+            >
+              Export to calendar
+            </button>
+            <Link
+              to="/dashboard"
+              className="px-6 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-sm sm:text-base text-center"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+          {canRelease && isPastReleaseDeadline(lesson) && (
+            <p className="mt-3 text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+              {getReleaseCutoffMessage()}
+            </p>
+          )}
+        </div>
+      )}
+    </Layout>
+  );
+};
+
+export default LessonDetail;
@@ -1,30 +1,36 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
+import { isMockApi } from '../services/api';
 
 /**
  * Login page component
  * 
  * Provides a login form for tutors to authenticate.
- * Uses mock authentication - any non-empty credentials will work.
+ * Credentials are posted to the backend, which issues access and refresh tokens.
+ * In mock mode any non-empty credentials will work.
  * Redirects to dashboard upon successful login.
  */
 const Login = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
   const login = useAuthStore((state) => state.login);
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setSubmitting(true);
 
-    const success = await login(email, password);
-    if (success) {
+    try {
+      await login(email, password);
       navigate('/dashboard');
-    } else {
-      setError('Login failed. Please check your credentials.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Login failed. Please check your credentials.');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -77,15 +83,19 @@ const Login = () => {
 
           <button
             type="submit"
-            className="w-full bg-indigo-600 text-white py-2.5 sm:py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base"
+            disabled={submitting}
+            className="w-full bg-indigo-600 text-white py-2.5 sm:py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition font-medium text-sm sm:text-base disabled:opacity-60 disabled:cursor-not-allowed"
           >
-            Login
+            {submitting ? 'Logging in...' : 'Login'}
           </button>
         </form>
 
-        <p className="mt-5 sm:mt-6 text-center text-xs sm:text-sm text-gray-500 dark:text-gray-400 px-2">
-          Note: Any non-empty credentials will work (mock login)
-        </p>
+        {isMockApi && (
+          <p className="mt-5 sm:mt-6 text-center text-xs sm:text-sm text-gray-500 dark:text-gray-400 px-2">
+            Note: Any non-empty credentials will work (mock login).
+            Emails starting with "admin" or "coordinator" log in with that role.
+          </p>
+        )}
       </div>
     </div>
   );
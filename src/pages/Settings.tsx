@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useReminderStore } from '../store/reminderStore';
+import Layout from '../components/Layout';
+import {
+  isNotificationSupported,
+  requestNotificationPermission,
+  showTestNotification,
+} from '../services/reminders';
+import { REMINDERS } from '../constants';
+import { formatLeadTime } from '../utils';
+
+/**
+ * Settings page component - Lets tutors configure lesson reminders
+ *
+ * Reminders are opt-in browser notifications shown a chosen number of minutes
+ * before each upcoming lesson. Turning them on asks for notification permission.
+ */
+const Settings = () => {
+  const { enabled, leadTimes, setEnabled, addLeadTime, removeLeadTime } = useReminderStore();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(() =>
+    isNotificationSupported() ? Notification.permission : 'unsupported'
+  );
+  const [leadTime, setLeadTime] = useState<number>(REMINDERS.LEAD_TIME_OPTIONS[0]);
+  const [error, setError] = useState('');
+
+  const active = enabled && permission === 'granted';
+
+  const handleToggle = async () => {
+    setError('');
+    // Reminders left enabled after permission was revoked show as off, so ask again
+    if (active) {
+      setEnabled(false);
+      return;
+    }
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      setEnabled(true);
+    } else {
+      setError('Notifications are blocked. Allow them for this site in your browser settings to get reminders.');
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      addLeadTime(leadTime);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add reminder');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100">Settings</h1>
+        <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+          Get a browser notification before each of your upcoming lessons.
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100">Lesson reminders</h2>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+              {permission === 'unsupported'
+                ? "This browser doesn't support notifications."
+                : active
+                  ? 'Reminders are on for this browser. They are shown once, even with several tabs open.'
+                  : 'Reminders are off.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {active && (
+              <button
+                type="button"
+                onClick={showTestNotification}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium text-sm whitespace-nowrap"
+              >
+                Send test
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleToggle}
+              disabled={permission === 'unsupported'}
+              className={`px-4 py-2 rounded-lg transition font-medium text-sm whitespace-nowrap disabled:opacity-60 disabled:cursor-not-allowed ${
+                active
+                  ? 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700'
+              }`}
+            >
+              {active ? 'Turn off' : 'Turn on reminders'}
+            </button>
+          </div>
+        </div>
+        {error && (
+          <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 px-3 py-2.5 rounded-lg text-xs sm:text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+        <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Remind me</h2>
+        {leadTimes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No reminder times set</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {leadTimes.map((minutes) => (
+              <span
+                key={minutes}
+                className="inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-xs sm:text-sm"
+              >
+                {formatLeadTime(minutes)} before
+                <button
+                  type="button"
+                  onClick={() => removeLeadTime(minutes)}
+                  className="p-0.5 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-800 transition"
+                  aria-label={`Remove the reminder ${formatLeadTime(minutes)} before`}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleAdd} className="flex flex-col sm:flex-row items-stretch sm:items-end gap-3">
+          <div className="flex-1 sm:max-w-xs">
+            <label htmlFor="reminder-lead-time" className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Add a reminder
+            </label>
+            <select
+              id="reminder-lead-time"
+              value={leadTime}
+              onChange={(e) => setLeadTime(Number(e.target.value))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            >
+              {REMINDERS.LEAD_TIME_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {formatLeadTime(minutes)} before
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            className="w-full sm:w-auto px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-medium whitespace-nowrap text-sm"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { useLessonStore } from '../store/lessonStore';
+import Layout from '../components/Layout';
+import { ATTENDANCE_OPTIONS, LESSON_STATUS_COLORS } from '../constants';
+import { filterVisibleLessons, formatLessonDate, formatLessonTime, getStudentProfile } from '../utils';
+
+/**
+ * StudentProfile page component - Shows a student's lesson history at /students/:name
+ *
+ * Loads every lesson with the student from the API into the lesson store, then
+ * builds the profile from the store: the subjects and levels covered, attendance
+ * rate, next scheduled lesson and the full list of lessons, newest first.
+ * Only lessons the signed-in user may see are included.
+ */
+const StudentProfile = () => {
+  const { name = '' } = useParams<{ name: string }>();
+  const user = useAuthStore((state) => state.user);
+  const { lessons, fetchStudentLessons } = useLessonStore();
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchStudentLessons(name)
+      .catch((error) => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to load lessons');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name, fetchStudentLessons]);
+
+  const profile = useMemo(
+    () => getStudentProfile(filterVisibleLessons(lessons, user), name),
+    [lessons, user, name]
+  );
+
+  const stats = [
+    { label: 'Lessons', value: String(profile.lessons.length) },
+    { label: 'Completed', value: String(profile.completedCount) },
+    {
+      label: 'Attendance',
+      value: profile.attendanceRate === null ? '—' : `${Math.round(profile.attendanceRate * 100)}%`,
+      hint: profile.attendanceRecorded > 0
+        ? `From ${profile.attendanceRecorded} recorded lesson${profile.attendanceRecorded === 1 ? '' : 's'}`
+        : 'Not recorded yet',
+    },
+    { label: 'Subjects', value: String(profile.subjects.length) },
+  ];
+
+  return (
+    <Layout>
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-800 dark:text-gray-100 break-words">{name}</h1>
+        {profile.tutors.length > 0 && (
+          <p className="mt-1 text-sm sm:text-base text-gray-500 dark:text-gray-400">
+            Taught by {profile.tutors.join(', ')}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 sm:px-4 py-2.5 sm:py-3 rounded-lg mb-4 sm:mb-6 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
+
+      {loading && profile.lessons.length === 0 ? (
+        <div className="text-center py-8 sm:py-12">
+          <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          <p className="mt-3 sm:mt-4 text-sm sm:text-base text-gray-600 dark:text-gray-400">Loading...</p>
+        </div>
+      ) : profile.lessons.length === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6 sm:p-8 text-center text-gray-500 dark:text-gray-400 text-sm sm:text-base">
+          No lessons found for this student.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4"
+              >
+                <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">{stat.label}</p>
+                <p className="mt-1 text-xl sm:text-2xl font-bold text-gray-800 dark:text-gray-100">{stat.value}</p>
+                {stat.hint && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">{stat.hint}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mb-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Next lesson</h2>
+              {profile.nextLesson ? (
+                <Link
+                  to={`/lessons/${profile.nextLesson.id}`}
+                  className="block rounded-lg p-2 -m-2 hover:bg-gray-50 dark:hover:bg-gray-700 transition"
+                >
+                  <p className="text-sm sm:text-base font-medium text-gray-800 dark:text-gray-100 break-words">
+                    {profile.nextLesson.subject}
+                  </p>
+                  <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+                    {formatLessonDate(profile.nextLesson)} {formatLessonTime(profile.nextLesson)}
+                    {profile.nextLesson.tutor && ` · ${profile.nextLesson.tutor}`}
+                  </p>
+                </Link>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No lessons scheduled.</p>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Subjects</h2>
+              <ul className="space-y-2">
+                {profile.subjects.map((subject) => (
+                  <li key={subject.name} className="flex flex-wrap items-center gap-1.5 text-sm">
+                    <span className="font-medium text-gray-800 dark:text-gray-100 mr-1">{subject.name}</span>
+                    {subject.levels.map((level) => (
+                      <span
+                        key={level}
+                        className="px-2 py-0.5 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-xs font-medium"
+                      >
+                        {level}
+                      </span>
+                    ))}
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {subject.lessonCount} lesson{subject.lessonCount === 1 ? '' : 's'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-3 sm:p-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Lessons</h2>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {profile.lessons.map((lesson) => {
+                const status = lesson.attendance?.[name];
+                const attendance = ATTENDANCE_OPTIONS.find((option) => option.status === status);
+                return (
+                  <li key={lesson.id}>
+                    <Link
+                      to={`/lessons/${lesson.id}`}
+                      className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700 transition px-2 -mx-2 rounded"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-800 dark:text-gray-100 break-words">{lesson.subject}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatLessonDate(lesson)} {formatLessonTime(lesson)}
+                          {lesson.tutor && ` · ${lesson.tutor}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {attendance && (
+                          <span className="text-xs text-gray-600 dark:text-gray-400">{attendance.label}</span>
+                        )}
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LESSON_STATUS_COLORS[lesson.status]}`}>
+                          {lesson.status}
+                        </span>
+                      </div>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </>
+      )}
+    </Layout>
+  );
+};
+
+export default StudentProfile;
@@ -1,4 +1,18 @@
-import { Lesson } from '../types';
+import {
+  AuthTokens,
+  Lesson,
+  LessonAttendance,
+  LessonPage,
+  LessonQuery,
+  LessonReportContent,
+  LoginResponse,
+  PayRates,
+  User,
+} from '../types';
+import { differenceInMinutes, format } from 'date-fns';
+import { canReleaseLesson, getLessonWallClock, getReleaseCutoffMessage, isPastReleaseDeadline } from '../utils';
+import { DATE_FILTER, LESSON_PAGINATION, SCHEDULING_POLICY } from '../constants';
+import { ApiError, LessonConflictError, NetworkError, toLessonApiError } from './errors';
 
 /**
  * API Configuration
@@ -7,15 +21,63 @@ import { Lesson } from '../types';
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 const API_TIMEOUT = Number(import.meta.env.VITE_API_TIMEOUT) || 30000;
 const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true' || !import.meta.env.VITE_API_BASE_URL;
+/** Probability (0-1) that a mock "take class" loses the race to another tutor */
+const MOCK_TAKE_CONFLICT_RATE = Number(import.meta.env.VITE_MOCK_TAKE_CONFLICT_RATE) || 0;
+/** Number of extra generated lessons in mock mode, for trying out large data sets */
+const MOCK_LESSON_COUNT = Number(import.meta.env.VITE_MOCK_LESSON_COUNT) || 0;
+
+/**
+ * Whether the client is running against mock data instead of the real API
+ */
+export const isMockApi = USE_MOCK_API;
 
 /**
  * API endpoints
  */
 const API_ENDPOINTS = {
   LESSONS: '/lessons',
+  LESSON_MONTHS: '/lessons/months',
   TAKE_CLASS: '/lessons/take',
+  COMPLETE_LESSON: '/lessons/complete',
+  RELEASE_CLASS: '/lessons/release',
+  ATTENDANCE: (lessonId: string) => `/lessons/${encodeURIComponent(lessonId)}/attendance`,
+  REPORT: (lessonId: string) => `/lessons/${encodeURIComponent(lessonId)}/report`,
+  PAY_RATES: '/tutors/me/rates',
+  LIVE_TICKET: '/live/tickets',
+  AUTH_LOGIN: '/auth/login',
+  AUTH_REFRESH: '/auth/refresh',
 } as const;
 
+/**
+ * Auth handlers - Supplied by the auth store so the API client can attach and
+ * renew tokens without importing the store (which would create a circular import)
+ */
+export interface AuthHandlers {
+  /** Returns the current access token, or null when logged out */
+  getAccessToken: () => string | null;
+  /** Renews the tokens; resolves to false when the session cannot be refreshed */
+  refreshSession: () => Promise<boolean>;
+  /** Called when the session is no longer valid (refresh failed) */
+  onSessionExpired: () => void;
+  /** Returns the signed-in user; the mock API uses it where a server would read the token */
+  getCurrentUser: () => User | null;
+}
+
+let authHandlers: AuthHandlers | null = null;
+
+/**
+ * In-flight refresh, shared so that concurrent 401s trigger a single refresh call
+ */
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Register the auth handlers used by fetchWithTimeout
+ * @param handlers - Token accessors and session callbacks from the auth store
+ */
+export const configureAuth = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
 /**
  * Mock data for development/testing
  * This data is used when VITE_USE_MOCK_API is set to 'true'
@@ -24,15 +86,20 @@ const mockLessons: Lesson[] = [
   {
     id: "L001",
     date: "2025-10-28T14:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Historic",
     subject: "Minecraft Game Design - Level 1",
     students: ["Ethan", "Ava"],
     tutor: "Sarah Tan",
-    status: "Completed"
+    status: "Completed",
+    attendance: { Ethan: "present", Ava: "late" }
   },
   {
     id: "L002",
     date: "2025-11-02T09:00:00Z",
+    durationMinutes: 90,
+    timezone: "Asia/Singapore",
     type: "Historic",
     subject: "Roblox Coding Basics",
     students: ["Lucas"],
@@ -42,6 +109,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L003",
     date: "2025-11-05T16:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Historic",
     subject: "Python for Kids - Introduction",
     students: ["Chloe", "Aaron"],
@@ -51,6 +120,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L004",
     date: "2025-11-08T10:00:00Z",
+    durationMinutes: 90,
+    timezone: "Asia/Singapore",
     type: "Upcoming",
     subject: "Minecraft Redstone Logic",
     students: ["Emma", "Noah"],
@@ -60,6 +131,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L005",
     date: "2025-11-09T15:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Upcoming",
     subject: "Roblox Game Design - Level 2",
     students: ["Ryan", "Mia"],
@@ -69,6 +142,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L006",
     date: "2025-11-10T12:00:00Z",
+    durationMinutes: 45,
+    timezone: "Asia/Singapore",
     type: "Upcoming",
     subject: "Website Design for Beginners",
     students: ["Olivia"],
@@ -78,6 +153,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L007",
     date: "2025-11-12T11:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Available",
     subject: "Python for Kids - Game Projects",
     students: [],
@@ -87,6 +164,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L008",
     date: "2025-11-13T17:00:00Z",
+    durationMinutes: 90,
+    timezone: "Asia/Singapore",
     type: "Available",
     subject: "Roblox Game Design - Level 1",
     students: [],
@@ -96,6 +175,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L009",
     date: "2025-11-14T10:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Available",
     subject: "Minecraft AI Coding Adventure",
     students: [],
@@ -105,6 +186,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L010",
     date: "2025-11-15T09:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Upcoming",
     subject: "Python Automation for Kids",
     students: ["Elijah"],
@@ -114,6 +197,8 @@ const mockLessons: Lesson[] = [
   {
     id: "L011",
     date: "2026-01-03T09:00:00Z",
+    durationMinutes: 60,
+    timezone: "Asia/Singapore",
     type: "Upcoming",
     subject: "Python Automation for Kids2",
     students: ["Celtic"],
@@ -122,6 +207,119 @@ const mockLessons: Lesson[] = [
   }
 ];
 
+/**
+ * Generate mock lessons for benchmarking large data sets
+ * Uses a fixed seed so the same lessons (and ids) are generated on every load.
+ * Most lessons are in the past three years; the rest are spread over the next two months.
+ * @param count - Number of lessons to generate
+ * @returns Generated lessons with ids G00001, G00002, ...
+ */
+const generateMockLessons = (count: number): Lesson[] => {
+  const subjects = [
+    'Minecraft Game Design - Level 1',
+    'Minecraft Redstone Logic',
+    'Roblox Coding Basics',
+    'Roblox Game Design - Level 2',
+    'Python for Kids - Introduction',
+    'Python Automation for Kids',
+    'Website Design for Beginners',
+  ];
+  const students = ['Ethan', 'Ava', 'Lucas', 'Chloe', 'Aaron', 'Emma', 'Noah', 'Ryan', 'Mia', 'Olivia', 'Elijah'];
+  const durations = [45, 60, 90];
+
+  // Small deterministic PRNG (mulberry32)
+  let seed = 0x5eed;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const now = Date.now();
+  const day = 24 * 60 * 60 * 1000;
+  return Array.from({ length: count }, (_, index) => {
+    const offsetDays = random() < 0.9 ? -Math.ceil(random() * 3 * 365) : Math.ceil(random() * 60);
+    const start = new Date(now + offsetDays * day);
+    start.setUTCHours(1 + Math.floor(random() * 12), random() < 0.5 ? 0 : 30, 0, 0);
+    const isPast = start.getTime() < now;
+    const isAvailable = !isPast && random() < 0.4;
+
+    return {
+      id: `G${String(index + 1).padStart(5, '0')}`,
+      date: start.toISOString(),
+      durationMinutes: pick(durations),
+      timezone: 'Asia/Singapore',
+      type: isPast ? 'Historic' : isAvailable ? 'Available' : 'Upcoming',
+      subject: pick(subjects),
+      students: Array.from({ length: Math.floor(random() * 4) }, () => pick(students)),
+      tutor: isAvailable ? null : 'Sarah Tan',
+      status: isPast ? 'Completed' : isAvailable ? 'Available' : 'Confirmed',
+    };
+  });
+};
+
+if (USE_MOCK_API && MOCK_LESSON_COUNT > 0) {
+  mockLessons.push(...generateMockLessons(MOCK_LESSON_COUNT));
+}
+
+/**
+ * Pay rates returned by the mock API
+ */
+const mockPayRates: PayRates = {
+  currency: 'SGD',
+  defaultHourlyRate: 40,
+  subjectRates: [
+    { match: 'Level 3', hourlyRate: 55 },
+    { match: 'Level 2', hourlyRate: 50 },
+    { match: 'Python', hourlyRate: 50 },
+    { match: 'Roblox', hourlyRate: 45 },
+  ],
+  studentCountRates: [
+    { minStudents: 3, hourlyBonus: 10 },
+    { minStudents: 5, hourlyBonus: 20 },
+  ],
+};
+
+/**
+ * Lesson as returned by the API
+ * The backend may send either a duration or an end time, and older
+ * endpoints send neither.
+ */
+export type ApiLesson = Omit<Lesson, 'durationMinutes'> & {
+  durationMinutes?: number;
+  endDate?: string;
+};
+
+/**
+ * Normalize a lesson from the API into the client Lesson model
+ * The duration comes from durationMinutes, else from endDate, else the default lesson length.
+ * @param raw - Lesson as returned by the API
+ * @returns Lesson with durationMinutes always set
+ */
+export const parseLesson = (raw: ApiLesson): Lesson => {
+  const { endDate, ...lesson } = raw;
+  let durationMinutes = raw.durationMinutes;
+  if (!durationMinutes && endDate) {
+    durationMinutes = differenceInMinutes(new Date(endDate), new Date(raw.date));
+  }
+  return {
+    ...lesson,
+    durationMinutes: durationMinutes && durationMinutes > 0 ? durationMinutes : SCHEDULING_POLICY.DEFAULT_LESSON_MINUTES,
+    timezone: raw.timezone || undefined,
+  };
+};
+
+/**
+ * Page of lessons as returned by the API
+ */
+interface ApiLessonPage {
+  data: ApiLesson[];
+  nextCursor: string | null;
+  total: number;
+}
+
 /**
  * Simulate API delay for mock API
  * @param ms - Delay in milliseconds
@@ -129,22 +327,56 @@ const mockLessons: Lesson[] = [
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Create a fetch request with timeout
+ * Simulate a network round trip for mock API
+ * Fails like a real request when the browser is offline, so offline mode can be tried out.
+ * @param ms - Delay in milliseconds
+ * @throws NetworkError if the browser is offline
+ */
+const mockRequest = async (ms: number) => {
+  if (!navigator.onLine) {
+    throw new NetworkError();
+  }
+  await delay(ms);
+};
+
+/**
+ * Replace a lesson in the mock data so mock mutations survive later requests
+ * @param updated - The updated lesson
+ */
+const replaceMockLesson = (updated: Lesson) => {
+  const index = mockLessons.findIndex((l) => l.id === updated.id);
+  if (index !== -1) {
+    mockLessons[index] = updated;
+  }
+};
+
+/**
+ * Send a single fetch request with timeout and the current access token
  * @param url - Request URL
  * @param options - Fetch options
  * @param timeout - Timeout in milliseconds
  */
-const fetchWithTimeout = async (
+const sendRequest = async (
   url: string,
-  options: RequestInit = {},
-  timeout: number = API_TIMEOUT
+  options: RequestInit,
+  timeout: number
 ): Promise<Response> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+  const headers = new Headers(options.headers);
+  const accessToken = authHandlers?.getAccessToken();
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+
   try {
+    if (!navigator.onLine) {
+      throw new NetworkError();
+    }
     const response = await fetch(url, {
       ...options,
+      headers,
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
@@ -154,25 +386,258 @@ const fetchWithTimeout = async (
     if (error instanceof Error && error.name === 'AbortError') {
       throw new Error(`Request timeout after ${timeout}ms`);
     }
+    // fetch rejects with a TypeError when the server cannot be reached
+    if (error instanceof TypeError) {
+      throw new NetworkError();
+    }
     throw error;
   }
 };
 
 /**
- * Fetch lessons from the API
+ * Refresh the session once, sharing the result between concurrent callers
+ * @returns Promise resolving to true if new tokens were issued
+ */
+const refreshSessionOnce = (): Promise<boolean> => {
+  if (!authHandlers) {
+    return Promise.resolve(false);
+  }
+  if (!refreshInFlight) {
+    refreshInFlight = authHandlers
+      .refreshSession()
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * Create a fetch request with timeout and bearer authentication
+ *
+ * On a 401 response the session is refreshed once and the request retried.
+ * If the refresh fails, the session-expired handler is called (logout and
+ * redirect to the login page) and the 401 response is returned to the caller.
+ *
+ * @param url - Request URL
+ * @param options - Fetch options
+ * @param timeout - Timeout in milliseconds
+ * @param retryOnUnauthorized - Whether to refresh and retry on 401 (disabled for the auth endpoints themselves)
+ */
+const fetchWithTimeout = async (
+  url: string,
+  options: RequestInit = {},
+  timeout: number = API_TIMEOUT,
+  retryOnUnauthorized: boolean = true
+): Promise<Response> => {
+  const response = await sendRequest(url, options, timeout);
+
+  if (response.status !== 401 || !retryOnUnauthorized || !authHandlers) {
+    return response;
+  }
+
+  const refreshed = await refreshSessionOnce();
+  if (!refreshed) {
+    authHandlers.onSessionExpired();
+    return response;
+  }
+
+  const retried = await sendRequest(url, options, timeout);
+  if (retried.status === 401) {
+    authHandlers.onSessionExpired();
+  }
+  return retried;
+};
+
+/**
+ * Create a fake token for mock mode
+ * @param kind - Token kind, used as a readable prefix
+ */
+const createMockToken = (kind: 'access' | 'refresh' | 'ticket') =>
+  `mock-${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Log in with email and password
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param email - Tutor email
+ * @param password - Tutor password
+ * @returns Promise resolving to the access token, refresh token and user
+ * @throws Error if the credentials are rejected or the request fails
+ */
+export const login = async (email: string, password: string): Promise<LoginResponse> => {
+  if (USE_MOCK_API) {
+    // Mock login - any non-empty credentials will work
+    await mockRequest(300);
+    if (!email || !password) {
+      throw new Error('Invalid email or password');
+    }
+    // The role is picked from the email so every role can be tried out,
+    // e.g. admin@... or coordinator@...; anything else logs in as a tutor
+    const localPart = email.split('@')[0].toLowerCase();
+    const role = localPart.startsWith('admin')
+      ? 'admin'
+      : localPart.startsWith('coordinator')
+      ? 'coordinator'
+      : 'tutor';
+    return {
+      accessToken: createMockToken('access'),
+      refreshToken: createMockToken('refresh'),
+      user: {
+        id: '1',
+        name: 'Sarah Tan',
+        email,
+        role,
+      },
+    };
+  }
+
+  let response: Response;
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.AUTH_LOGIN}`;
+    response = await fetchWithTimeout(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password }),
+      },
+      API_TIMEOUT,
+      false
+    );
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to log in: ${error.message}`
+        : 'Failed to log in'
+    );
+  }
+
+  if (response.status === 400 || response.status === 401) {
+    throw new Error('Invalid email or password');
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to log in: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Exchange a refresh token for a new pair of tokens
  * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
- * @returns Promise resolving to an array of lessons
+ * @param refreshToken - The current refresh token
+ * @returns Promise resolving to the new access and refresh tokens
+ * @throws Error if the refresh token is rejected or the request fails
+ */
+export const refreshAuthTokens = async (refreshToken: string): Promise<AuthTokens> => {
+  if (USE_MOCK_API) {
+    await mockRequest(200);
+    return {
+      accessToken: createMockToken('access'),
+      refreshToken: createMockToken('refresh'),
+    };
+  }
+
+  const url = `${API_BASE_URL}${API_ENDPOINTS.AUTH_REFRESH}`;
+  const response = await fetchWithTimeout(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken }),
+    },
+    API_TIMEOUT,
+    false
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to refresh session: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the page size to request, clamped to what the API accepts
+ */
+const getPageSize = (limit?: number) =>
+  Math.min(Math.max(1, limit || LESSON_PAGINATION.PAGE_SIZE), LESSON_PAGINATION.MAX_PAGE_SIZE);
+
+/**
+ * Apply a lesson query to the mock data the same way the API does
+ * The cursor is the offset of the next lesson in the sorted results.
+ * @param query - Lesson query
+ * @returns The requested page
+ */
+const queryMockLessons = (query: LessonQuery): LessonPage => {
+  const from = query.from ? new Date(query.from) : null;
+  const to = query.to ? new Date(query.to) : null;
+  const matching = mockLessons
+    .filter((lesson) => {
+      const start = new Date(lesson.date);
+      return (
+        (!query.type || lesson.type === query.type) &&
+        (!from || start >= from) &&
+        (!to || start <= to) &&
+        (!query.student || lesson.students.includes(query.student))
+      );
+    })
+    .sort((a, b) => {
+      const order = new Date(a.date).getTime() - new Date(b.date).getTime();
+      // Historic lessons are listed newest first
+      return query.type === 'Historic' ? -order : order;
+    });
+
+  const offset = Math.max(0, Number(query.cursor) || 0);
+  const limit = getPageSize(query.limit);
+  const nextOffset = offset + limit;
+  return {
+    lessons: matching.slice(offset, nextOffset).map((lesson) => ({ ...lesson })),
+    nextCursor: nextOffset < matching.length ? String(nextOffset) : null,
+    total: matching.length,
+  };
+};
+
+/**
+ * Fetch a page of lessons from the API
+ * Filtering by type, start time and student and pagination happen on the server;
+ * the mock API supports the same parameters.
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param query - Optional type, from/to range, student, cursor and page size
+ * @returns Promise resolving to a page of lessons
+ * @throws NetworkError if the server cannot be reached
  * @throws Error if the request fails
  */
-export const fetchLessons = async (): Promise<Lesson[]> => {
+export const fetchLessons = async (query: LessonQuery = {}): Promise<LessonPage> => {
   if (USE_MOCK_API) {
     // Use mock data with simulated delay
-    await delay(500);
-    return [...mockLessons];
+    await mockRequest(500);
+    return queryMockLessons(query);
   }
 
   try {
-    const url = `${API_BASE_URL}${API_ENDPOINTS.LESSONS}`;
+    const params = new URLSearchParams({ limit: String(getPageSize(query.limit)) });
+    if (query.type) {
+      params.set('type', query.type);
+    }
+    if (query.from) {
+      params.set('from', query.from);
+    }
+    if (query.to) {
+      params.set('to', query.to);
+    }
+    if (query.student) {
+      params.set('student', query.student);
+    }
+    if (query.cursor) {
+      params.set('cursor', query.cursor);
+    }
+    const url = `${API_BASE_URL}${API_ENDPOINTS.LESSONS}?${params.toString()}`;
     const response = await fetchWithTimeout(url, {
       method: 'GET',
       headers: {
@@ -184,9 +649,17 @@ export const fetchLessons = async (): Promise<Lesson[]> => {
       throw new Error(`Failed to fetch lessons: ${response.statusText}`);
     }
 
-    const data = await response.json();
-    return data;
+    const data: ApiLessonPage = await response.json();
+    return {
+      lessons: data.data.map(parseLesson),
+      nextCursor: data.nextCursor ?? null,
+      total: data.total ?? data.data.length,
+    };
   } catch (error) {
+    // Network errors are passed through so the store can fall back to the offline cache
+    if (error instanceof ApiError || error instanceof NetworkError) {
+      throw error;
+    }
     throw new Error(
       error instanceof Error
         ? `Failed to fetch lessons: ${error.message}`
@@ -195,26 +668,139 @@ export const fetchLessons = async (): Promise<Lesson[]> => {
   }
 };
 
+/**
+ * Fetch the months that have lessons within a date range
+ * Lessons are placed by their wall-clock start in their own timezone, the date shown
+ * on them, so the range and the months are in wall-clock time too; the range is
+ * sent as local date-times without an offset.
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @returns Promise resolving to month keys in DATE_FILTER.MONTH_FORMAT, oldest first
+ * @throws NetworkError if the server cannot be reached
+ * @throws Error if the request fails
+ */
+export const fetchLessonMonths = async (from: Date, to: Date): Promise<string[]> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    const months = new Set(
+      mockLessons
+        .map(getLessonWallClock)
+        .filter((start) => start >= from && start <= to)
+        .map((start) => format(start, DATE_FILTER.MONTH_FORMAT))
+    );
+    return Array.from(months).sort();
+  }
+
+  try {
+    const params = new URLSearchParams({
+      from: format(from, "yyyy-MM-dd'T'HH:mm:ss"),
+      to: format(to, "yyyy-MM-dd'T'HH:mm:ss"),
+    });
+    const url = `${API_BASE_URL}${API_ENDPOINTS.LESSON_MONTHS}?${params.toString()}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const data: { months: string[] } = await response.json();
+    return data.months;
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      throw error;
+    }
+    throw new Error(
+      error instanceof Error
+        ? `Failed to fetch lesson months: ${error.message}`
+        : 'Failed to fetch lesson months'
+    );
+  }
+};
+
+/**
+ * Fetch a single lesson by id
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param lessonId - ID of the lesson to fetch
+ * @returns Promise resolving to the lesson
+ * @throws Error if the lesson is not found or the request fails
+ */
+export const fetchLessonById = async (lessonId: string): Promise<Lesson> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    const lesson = mockLessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    return { ...lesson };
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.LESSONS}/${encodeURIComponent(lessonId)}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      throw new Error('Lesson not found');
+    }
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to fetch lesson: ${error.message}`
+        : 'Failed to fetch lesson'
+    );
+  }
+};
+
 /**
  * Take/claim an available class
  * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
  * @param lessonId - ID of the lesson to take
  * @returns Promise resolving to the updated lesson with status changed to 'Upcoming' and 'Confirmed'
+ * @throws LessonConflictError if another tutor took the class first (409)
+ * @throws LessonGoneError if the class no longer exists (410)
+ * @throws NetworkError if the server cannot be reached
  * @throws Error if the lesson is not found or the request fails
  */
 export const takeClass = async (lessonId: string): Promise<Lesson> => {
   if (USE_MOCK_API) {
     // Use mock data with simulated delay
-    await delay(300);
+    await mockRequest(300);
     const lesson = mockLessons.find((l) => l.id === lessonId);
     if (!lesson) {
       throw new Error('Lesson not found');
     }
+
+    // Simulate another tutor claiming the slot first (see VITE_MOCK_TAKE_CONFLICT_RATE)
+    if (lesson.type === 'Available' && Math.random() < MOCK_TAKE_CONFLICT_RATE) {
+      replaceMockLesson({
+        ...lesson,
+        type: 'Upcoming',
+        status: 'Confirmed',
+        tutor: 'Another Tutor',
+      });
+      throw new LessonConflictError(lessonId);
+    }
     
     // In mock mode, simulate the API response by returning an updated lesson
     // This mimics what a real API would return after successfully taking a class
     if (lesson.type === 'Available') {
-      return {
+      const updated: Lesson = {
         ...lesson,
         type: 'Upcoming' as const,
         status: 'Confirmed' as const,
@@ -222,10 +808,13 @@ export const takeClass = async (lessonId: string): Promise<Lesson> => {
         // Keep students as they were (or empty if none)
         students: lesson.students || [],
       };
+      // Persist the change so later lookups (e.g. by id) see the taken lesson
+      replaceMockLesson(updated);
+      return updated;
     }
     
-    // If lesson is not available, return as-is (though this shouldn't happen in normal flow)
-    return lesson;
+    // The lesson was already taken, which a real API reports as a conflict
+    throw new LessonConflictError(lessonId);
   }
 
   try {
@@ -243,12 +832,17 @@ export const takeClass = async (lessonId: string): Promise<Lesson> => {
     );
 
     if (!response.ok) {
-      throw new Error(`Failed to take class: ${response.statusText}`);
+      throw toLessonApiError(response, lessonId, 'take class');
     }
 
-    const data = await response.json();
-    return data;
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
   } catch (error) {
+    // Typed API and network errors are passed through so callers can handle
+    // conflicts and queue the request while offline
+    if (error instanceof ApiError || error instanceof NetworkError) {
+      throw error;
+    }
     throw new Error(
       error instanceof Error
         ? `Failed to take class: ${error.message}`
@@ -257,3 +851,293 @@ export const takeClass = async (lessonId: string): Promise<Lesson> => {
   }
 };
 
+/**
+ * Mark a confirmed lesson as done
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param lessonId - ID of the lesson to complete
+ * @returns Promise resolving to the updated lesson with type 'Historic' and status 'Completed'
+ * @throws Error if the lesson is not found or the request fails
+ */
+export const completeLesson = async (lessonId: string): Promise<Lesson> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    const lesson = mockLessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    const updated: Lesson = {
+      ...lesson,
+      type: 'Historic',
+      status: 'Completed',
+    };
+    replaceMockLesson(updated);
+    return updated;
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.COMPLETE_LESSON}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ lessonId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark lesson as done: ${response.statusText}`);
+    }
+
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to mark lesson as done: ${error.message}`
+        : 'Failed to mark lesson as done'
+    );
+  }
+};
+
+/**
+ * Save the attendance of a lesson's students
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param lessonId - ID of the lesson
+ * @param attendance - Attendance per student name
+ * @returns Promise resolving to the updated lesson
+ * @throws Error if the lesson is not found or the request fails
+ */
+export const saveAttendance = async (lessonId: string, attendance: LessonAttendance): Promise<Lesson> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    const lesson = mockLessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    const updated: Lesson = { ...lesson, attendance: { ...attendance } };
+    replaceMockLesson(updated);
+    return updated;
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.ATTENDANCE(lessonId)}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ attendance }),
+    });
+
+    if (response.status === 404) {
+      throw new Error('Lesson not found');
+    }
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to save attendance: ${error.message}`
+        : 'Failed to save attendance'
+    );
+  }
+};
+
+/**
+ * Submit the post-lesson report
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param lessonId - ID of the lesson
+ * @param report - Lesson notes and per-student progress reports
+ * @returns Promise resolving to the updated lesson with its report
+ * @throws Error if the lesson is not found or the request fails
+ */
+export const submitReport = async (lessonId: string, report: LessonReportContent): Promise<Lesson> => {
+  if (USE_MOCK_API) {
+    await mockRequest(400);
+    const lesson = mockLessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    const updated: Lesson = {
+      ...lesson,
+      report: { notes: report.notes, students: { ...report.students }, submittedAt: new Date().toISOString() },
+    };
+    replaceMockLesson(updated);
+    return updated;
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.REPORT(lessonId)}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(report),
+    });
+
+    if (response.status === 404) {
+      throw new Error('Lesson not found');
+    }
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to submit report: ${error.message}`
+        : 'Failed to submit report'
+    );
+  }
+};
+
+/**
+ * Release/drop a taken class so it becomes available to other tutors again
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @param lessonId - ID of the lesson to release
+ * @param reason - Why the tutor is giving the class up
+ * @returns Promise resolving to the updated lesson with type and status 'Available'
+ * @throws ApiError if the lesson is not the user's confirmed upcoming lesson (403) or the server rejects it
+ * @throws NetworkError if the server cannot be reached
+ * @throws Error if the lesson is not found, the release cutoff has passed or the request fails
+ */
+export const releaseClass = async (lessonId: string, reason: string): Promise<Lesson> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    const lesson = mockLessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    // Enforce the release rules on the "server" side as well, like a real backend would
+    if (!canReleaseLesson(lesson, authHandlers?.getCurrentUser() ?? null)) {
+      throw new ApiError('Failed to release class: only your own confirmed upcoming lessons can be released', 403);
+    }
+    if (isPastReleaseDeadline(lesson)) {
+      throw new Error(getReleaseCutoffMessage());
+    }
+    const updated: Lesson = {
+      ...lesson,
+      type: 'Available',
+      status: 'Available',
+      tutor: null,
+    };
+    replaceMockLesson(updated);
+    return updated;
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.RELEASE_CLASS}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ lessonId, reason }),
+    });
+
+    if (!response.ok) {
+      throw toLessonApiError(response, lessonId, 'release class');
+    }
+
+    const data: ApiLesson = await response.json();
+    return parseLesson(data);
+  } catch (error) {
+    if (error instanceof ApiError || error instanceof NetworkError) {
+      throw error;
+    }
+    throw new Error(
+      error instanceof Error
+        ? `Failed to release class: ${error.message}`
+        : 'Failed to release class'
+    );
+  }
+};
+
+/**
+ * Get a ticket for opening the live updates stream
+ * EventSource cannot send an Authorization header, so the stream is opened with
+ * a ticket in its URL instead of the access token. Tickets are single-use and
+ * expire within a minute, so one that ends up in a log or history is worthless.
+ * Uses a fake ticket if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @returns Promise resolving to the ticket
+ * @throws NetworkError if the server cannot be reached
+ * @throws Error if the request fails
+ */
+export const createLiveUpdatesTicket = async (): Promise<string> => {
+  if (USE_MOCK_API) {
+    await mockRequest(100);
+    return createMockToken('ticket');
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.LIVE_TICKET}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    const data: { ticket: string } = await response.json();
+    return data.ticket;
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      throw error;
+    }
+    throw new Error(
+      error instanceof Error
+        ? `Failed to start live updates: ${error.message}`
+        : 'Failed to start live updates'
+    );
+  }
+};
+
+/**
+ * Fetch the signed-in tutor's pay rates
+ * Uses mock data if VITE_USE_MOCK_API is true, otherwise makes a real API call
+ * @returns Promise resolving to the pay rates
+ * @throws NetworkError if the server cannot be reached
+ * @throws Error if the request fails
+ */
+export const fetchPayRates = async (): Promise<PayRates> => {
+  if (USE_MOCK_API) {
+    await mockRequest(300);
+    return { ...mockPayRates };
+  }
+
+  try {
+    const url = `${API_BASE_URL}${API_ENDPOINTS.PAY_RATES}`;
+    const response = await fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      throw error;
+    }
+    throw new Error(
+      error instanceof Error
+        ? `Failed to fetch pay rates: ${error.message}`
+        : 'Failed to fetch pay rates'
+    );
+  }
+};
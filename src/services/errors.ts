@@ -0,0 +1,90 @@
+import { Lesson } from '../types';
+
+/**
+ * API error types
+ * Typed errors let callers react to specific outcomes (e.g. conflicts)
+ * instead of parsing error messages.
+ */
+
+/**
+ * ApiError - An HTTP error response from the API
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * LessonConflictError - The lesson was claimed by another tutor first (HTTP 409)
+ */
+export class LessonConflictError extends ApiError {
+  readonly lessonId: string;
+
+  constructor(lessonId: string, message: string = 'This class has already been taken by someone else') {
+    super(message, 409);
+    this.name = 'LessonConflictError';
+    this.lessonId = lessonId;
+  }
+}
+
+/**
+ * LessonGoneError - The lesson no longer exists, e.g. it was cancelled (HTTP 410)
+ */
+export class LessonGoneError extends ApiError {
+  readonly lessonId: string;
+
+  constructor(lessonId: string, message: string = 'This class is no longer available') {
+    super(message, 410);
+    this.name = 'LessonGoneError';
+    this.lessonId = lessonId;
+  }
+}
+
+/**
+ * Map an error response for a lesson action to a typed error
+ * @param response - The failed response
+ * @param lessonId - ID of the lesson the request was about
+ * @param action - Human-readable action used in the generic message (e.g. "take class")
+ * @returns LessonConflictError for 409, LessonGoneError for 410, ApiError otherwise
+ */
+export const toLessonApiError = (response: Response, lessonId: string, action: string): ApiError => {
+  switch (response.status) {
+    case 409:
+      return new LessonConflictError(lessonId);
+    case 410:
+      return new LessonGoneError(lessonId);
+    default:
+      return new ApiError(`Failed to ${action}: ${response.statusText}`, response.status);
+  }
+};
+
+/**
+ * LessonOverlapError - Taking the lesson would double-book the tutor
+ * Raised before any request is made, so the user can cancel or confirm an override.
+ */
+export class LessonOverlapError extends Error {
+  readonly lessonId: string;
+  readonly conflicts: Lesson[];
+
+  constructor(lessonId: string, conflicts: Lesson[]) {
+    super(`This class clashes with ${conflicts.length} of your lesson${conflicts.length === 1 ? '' : 's'}`);
+    this.name = 'LessonOverlapError';
+    this.lessonId = lessonId;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * NetworkError - The request never reached the server (offline, DNS failure, etc.)
+ */
+export class NetworkError extends Error {
+  constructor(message: string = 'You appear to be offline') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
@@ -0,0 +1,118 @@
+import { LiveLessonEvent, LiveUpdatesStatus } from '../types';
+import { LIVE_UPDATES } from '../constants';
+import { ApiLesson, createLiveUpdatesTicket, parseLesson } from './api';
+
+/**
+ * Live updates over Server-Sent Events
+ *
+ * The server sends one named event per lesson change:
+ * - `lesson.created`: `{ "lesson": <lesson> }` for a new class
+ * - `lesson.changed`: `{ "lesson": <lesson> }` when a class is rescheduled or edited
+ * - `lesson.taken`:   `{ "lessonId": "...", "tutor": "..." }` when a tutor claims a class
+ */
+
+interface LiveUpdatesHandlers {
+  onEvent: (event: LiveLessonEvent) => void;
+  onStatusChange: (status: LiveUpdatesStatus) => void;
+}
+
+/**
+ * Parse the data of a server event; malformed events are ignored
+ * @param type - Event name
+ * @param data - Raw event data
+ * @returns The lesson event, or null if the data is not valid
+ */
+const parseLiveEvent = (type: string, data: string): LiveLessonEvent | null => {
+  try {
+    const payload = JSON.parse(data);
+    if (type === 'lesson.taken') {
+      return typeof payload?.lessonId === 'string' && typeof payload?.tutor === 'string'
+        ? { type, lessonId: payload.lessonId, tutor: payload.tutor }
+        : null;
+    }
+    if ((type === 'lesson.created' || type === 'lesson.changed') && typeof payload?.lesson?.id === 'string') {
+      return { type, lesson: parseLesson(payload.lesson as ApiLesson) };
+    }
+  } catch {
+    // Fall through to ignore the event
+  }
+  return null;
+};
+
+/**
+ * Connect to the live updates stream
+ *
+ * Browsers cannot send headers with EventSource, and an access token in the URL
+ * would end up in server logs and browser history. The stream is opened with a
+ * short-lived, single-use ticket from the API instead (`?ticket=`). A ticket only
+ * opens one connection, so when the stream closes (e.g. the server rejected a
+ * reused ticket), a new ticket is fetched after LIVE_UPDATES.RECONNECT_DELAY_MS;
+ * the status stays 'connecting' meanwhile.
+ *
+ * @param handlers - Callbacks for lesson events and connection status
+ * @returns Function that closes the connection
+ */
+export const connectLiveUpdates = (handlers: LiveUpdatesHandlers): (() => void) => {
+  if (!LIVE_UPDATES.URL || typeof EventSource === 'undefined') {
+    handlers.onStatusChange('disabled');
+    return () => undefined;
+  }
+
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const reconnectLater = () => {
+    source?.close();
+    source = null;
+    handlers.onStatusChange('connecting');
+    reconnectTimer = setTimeout(open, LIVE_UPDATES.RECONNECT_DELAY_MS);
+  };
+
+  const open = async () => {
+    handlers.onStatusChange('connecting');
+    let ticket: string;
+    try {
+      ticket = await createLiveUpdatesTicket();
+    } catch {
+      if (!stopped) {
+        reconnectLater();
+      }
+      return;
+    }
+    if (stopped) {
+      return;
+    }
+
+    const url = new URL(LIVE_UPDATES.URL, window.location.href);
+    url.searchParams.set('ticket', ticket);
+    const current = new EventSource(url.toString());
+    source = current;
+    current.onopen = () => handlers.onStatusChange('open');
+    current.onerror = () => {
+      if (current.readyState === EventSource.CLOSED) {
+        reconnectLater();
+      } else {
+        handlers.onStatusChange('connecting');
+      }
+    };
+
+    LIVE_UPDATES.EVENTS.forEach((type) => {
+      current.addEventListener(type, (message) => {
+        const event = parseLiveEvent(type, (message as MessageEvent<string>).data);
+        if (event) {
+          handlers.onEvent(event);
+        }
+      });
+    });
+  };
+
+  open();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    source?.close();
+    handlers.onStatusChange('closed');
+  };
+};
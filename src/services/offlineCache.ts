@@ -0,0 +1,151 @@
+import { Lesson, QueuedTakeClass } from '../types';
+import { OFFLINE } from '../constants';
+
+/**
+ * Offline storage in IndexedDB
+ * Holds the last fetched lessons, so the dashboard can render without a connection,
+ * and the "take class" requests made while offline.
+ */
+
+const LESSONS_STORE = 'lessons';
+const META_STORE = 'meta';
+const QUEUE_STORE = 'queue';
+const CACHED_AT_KEY = 'lessonsCachedAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database once, creating the object stores on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(OFFLINE.DB_NAME, OFFLINE.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LESSONS_STORE)) {
+          db.createObjectStore(LESSONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Wait for a transaction to commit
+ */
+const complete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Save lessons to the cache, replacing lessons with the same id
+ * @param lessons - Lessons that were just fetched
+ */
+export const cacheLessons = async (lessons: Lesson[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([LESSONS_STORE, META_STORE], 'readwrite');
+  const store = transaction.objectStore(LESSONS_STORE);
+  lessons.forEach((lesson) => store.put(lesson));
+  transaction.objectStore(META_STORE).put(new Date().toISOString(), CACHED_AT_KEY);
+  await complete(transaction);
+};
+
+/**
+ * Read the cached lessons
+ * @returns The lessons and when they were last cached, or null if nothing is cached
+ */
+export const loadCachedLessons = async (): Promise<{ lessons: Lesson[]; cachedAt: string } | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([LESSONS_STORE, META_STORE], 'readonly');
+  const [lessons, cachedAt] = await Promise.all([
+    toPromise(transaction.objectStore(LESSONS_STORE).getAll() as IDBRequest<Lesson[]>),
+    toPromise(transaction.objectStore(META_STORE).get(CACHED_AT_KEY) as IDBRequest<string | undefined>),
+  ]);
+  return cachedAt && lessons.length > 0 ? { lessons, cachedAt } : null;
+};
+
+/**
+ * Remove lessons from the cache, e.g. ones that no longer exist
+ * @param lessonIds - IDs of the lessons to remove
+ */
+export const removeCachedLessons = async (lessonIds: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(LESSONS_STORE, 'readwrite');
+  lessonIds.forEach((id) => transaction.objectStore(LESSONS_STORE).delete(id));
+  await complete(transaction);
+};
+
+/**
+ * Add a "take class" request to the offline queue
+ * @param action - The queued request
+ */
+export const enqueueTakeClass = async (action: QueuedTakeClass): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).put(action);
+  await complete(transaction);
+};
+
+/**
+ * Read the queued "take class" requests, oldest first
+ */
+export const getQueuedTakeClasses = async (): Promise<QueuedTakeClass[]> => {
+  const db = await openDatabase();
+  const actions = await toPromise(
+    db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll() as IDBRequest<QueuedTakeClass[]>
+  );
+  return actions.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+/**
+ * Remove a request from the offline queue once it has been sent
+ * @param id - ID of the queued request
+ */
+export const dequeueTakeClass = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).delete(id);
+  await complete(transaction);
+};
+
+/**
+ * Clear all offline data, e.g. on logout
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([LESSONS_STORE, META_STORE, QUEUE_STORE], 'readwrite');
+  transaction.objectStore(LESSONS_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  transaction.objectStore(QUEUE_STORE).clear();
+  await complete(transaction);
+};
@@ -0,0 +1,148 @@
+import { Lesson, LessonReminder } from '../types';
+import { REMINDERS } from '../constants';
+import { formatLeadTime, formatLessonTime } from '../utils';
+
+/**
+ * Browser notification reminders before upcoming lessons
+ *
+ * Every open tab schedules the same reminders, so each one is claimed in
+ * localStorage before it is shown. Claims are serialized with the Web Locks API
+ * where available; the notification tag also lets the browser replace a duplicate.
+ */
+
+/**
+ * Whether the browser supports notifications
+ */
+export const isNotificationSupported = (): boolean => typeof Notification !== 'undefined';
+
+/**
+ * Ask the tutor for permission to show notifications
+ * @returns The resulting permission, or 'denied' if notifications are not supported
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) {
+    return 'denied';
+  }
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+  return Notification.requestPermission();
+};
+
+/**
+ * Build the reminders for a tutor's upcoming lessons that have not started yet
+ *
+ * When several reminders for the same lesson are already due (e.g. the app was
+ * opened 10 minutes before the start), only the latest one is kept.
+ *
+ * @param lessons - Lessons to remind about
+ * @param leadTimes - Minutes before each lesson to remind
+ * @param tutorName - Current tutor; only their upcoming lessons get reminders
+ * @param now - Current time
+ * @returns Reminders sorted by when they are due
+ */
+export const buildReminderSchedule = (
+  lessons: Lesson[],
+  leadTimes: number[],
+  tutorName: string,
+  now: Date = new Date()
+): LessonReminder[] => {
+  const nowMs = now.getTime();
+  return lessons
+    .filter((lesson) => lesson.type === 'Upcoming' && lesson.tutor === tutorName)
+    .flatMap((lesson) => {
+      const start = new Date(lesson.date).getTime();
+      if (start <= nowMs) {
+        return [];
+      }
+      const reminders = leadTimes.map((leadMinutes) => ({
+        key: `${lesson.id}|${lesson.date}|${leadMinutes}`,
+        lesson,
+        leadMinutes,
+        fireAt: start - leadMinutes * 60 * 1000,
+      }));
+      const due = reminders.filter((reminder) => reminder.fireAt <= nowMs);
+      const latestDue = due.reduce<LessonReminder | null>(
+        (latest, reminder) => (!latest || reminder.fireAt > latest.fireAt ? reminder : latest),
+        null
+      );
+      return reminders.filter((reminder) => reminder.fireAt > nowMs || reminder === latestDue);
+    })
+    .sort((a, b) => a.fireAt - b.fireAt);
+};
+
+/**
+ * Read the reminders already shown, dropping those whose lesson has started
+ */
+const readSentReminders = (now: number): Record<string, number> => {
+  try {
+    const sent: Record<string, number> = JSON.parse(localStorage.getItem(REMINDERS.SENT_STORAGE_KEY) || '{}');
+    return Object.fromEntries(Object.entries(sent).filter(([, lessonStart]) => lessonStart > now));
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Mark a reminder as shown unless another tab already did
+ * @returns True if this tab should show the reminder
+ */
+const markReminderSent = (reminder: LessonReminder): boolean => {
+  const sent = readSentReminders(Date.now());
+  if (sent[reminder.key]) {
+    return false;
+  }
+  sent[reminder.key] = new Date(reminder.lesson.date).getTime();
+  localStorage.setItem(REMINDERS.SENT_STORAGE_KEY, JSON.stringify(sent));
+  return true;
+};
+
+/**
+ * Claim a reminder for this tab
+ * @param reminder - The reminder about to be shown
+ * @returns True if no other tab has shown it
+ */
+const claimReminder = async (reminder: LessonReminder): Promise<boolean> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(REMINDERS.LOCK_NAME, () => markReminderSent(reminder));
+  }
+  return markReminderSent(reminder);
+};
+
+/**
+ * Show a reminder as a browser notification, once across all tabs
+ * Clicking the notification opens the lesson.
+ * @param reminder - The due reminder
+ */
+export const showLessonReminder = async (reminder: LessonReminder): Promise<void> => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') {
+    return;
+  }
+  if (!(await claimReminder(reminder))) {
+    return;
+  }
+
+  const { lesson } = reminder;
+  const minutesLeft = Math.max(1, Math.round((new Date(lesson.date).getTime() - Date.now()) / 60000));
+  const notification = new Notification(`${lesson.subject} starts in ${formatLeadTime(minutesLeft)}`, {
+    body: `${formatLessonTime(lesson)}${lesson.students.length > 0 ? ` · ${lesson.students.join(', ')}` : ''}`,
+    tag: reminder.key,
+  });
+  notification.onclick = () => {
+    window.focus();
+    window.location.hash = `#/lessons/${encodeURIComponent(lesson.id)}`;
+    notification.close();
+  };
+};
+
+/**
+ * Show a sample notification so the tutor can check reminders work
+ */
+export const showTestNotification = (): void => {
+  if (isNotificationSupported() && Notification.permission === 'granted') {
+    new Notification('Lesson reminders are on', {
+      body: "You'll be notified before your upcoming lessons.",
+      tag: 'lesson-reminders-test',
+    });
+  }
+};
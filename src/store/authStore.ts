@@ -1,45 +1,97 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
+import { User } from '../types';
+import { configureAuth, login as loginAPI, refreshAuthTokens } from '../services/api';
+import { clearOfflineData } from '../services/offlineCache';
 
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
+  accessToken: string | null;
+  refreshToken: string | null;
+  login: (email: string, password: string) => Promise<void>;
+  refreshSession: () => Promise<boolean>;
   logout: () => void;
 }
 
+/**
+ * The part of the auth state kept in local storage
+ */
+type PersistedAuthState = Pick<AuthState, 'user' | 'isAuthenticated' | 'accessToken' | 'refreshToken'>;
+
 export const useAuthStore = create<AuthState>()(
-  persist(
-    (set) => ({
+  persist<AuthState, [], [], PersistedAuthState>(
+    (set, get) => ({
       user: null,
       isAuthenticated: false,
+      accessToken: null,
+      refreshToken: null,
+      /**
+       * Log in with email and password
+       *
+       * Posts the credentials to the backend (or the mock API) and stores the
+       * returned user together with the access and refresh tokens.
+       *
+       * @param email - Tutor email
+       * @param password - Tutor password
+       * @throws Error if the credentials are rejected or the request fails
+       */
       login: async (email: string, password: string) => {
-        // Mock login - any non-empty credentials will work
-        if (email && password) {
-          const user: User = {
-            id: '1',
-            name: 'Sarah Tan',
-            email: email,
-          };
-          set({ user, isAuthenticated: true });
+        const { user, accessToken, refreshToken } = await loginAPI(email, password);
+        set({ user, accessToken, refreshToken, isAuthenticated: true });
+      },
+      /**
+       * Renew the access token using the stored refresh token
+       * @returns Promise resolving to true if new tokens were stored
+       */
+      refreshSession: async () => {
+        const { refreshToken } = get();
+        if (!refreshToken) {
+          return false;
+        }
+        try {
+          const tokens = await refreshAuthTokens(refreshToken);
+          set({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
           return true;
+        } catch {
+          return false;
         }
-        return false;
       },
       logout: () => {
-        set({ user: null, isAuthenticated: false });
+        set({ user: null, isAuthenticated: false, accessToken: null, refreshToken: null });
+        // Cached lessons and queued claims belong to this tutor only
+        clearOfflineData().catch(() => undefined);
       },
     }),
     {
       name: 'auth-storage',
       storage: createJSONStorage(() => localStorage),
+      partialize: ({ user, isAuthenticated, accessToken, refreshToken }) => ({
+        user,
+        isAuthenticated,
+        accessToken,
+        refreshToken,
+      }),
+      // Version 1 added tokens and user roles; older sessions have neither, so they are dropped
+      version: 1,
+      migrate: () => ({
+        user: null,
+        isAuthenticated: false,
+        accessToken: null,
+        refreshToken: null,
+      }),
     }
   )
 );
 
+// Let the API client attach the access token and renew it on 401 responses.
+// When the refresh fails, the session is dropped and the user is sent back to login.
+configureAuth({
+  getAccessToken: () => useAuthStore.getState().accessToken,
+  refreshSession: () => useAuthStore.getState().refreshSession(),
+  onSessionExpired: () => {
+    useAuthStore.getState().logout();
+    window.location.hash = '#/login';
+  },
+  getCurrentUser: () => useAuthStore.getState().user,
+});
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { AvailabilitySlot } from '../types';
+import { timeToMinutes } from '../utils';
+
+interface AvailabilityState {
+  slots: AvailabilitySlot[];
+  addSlot: (day: number, start: string, end: string) => void;
+  removeSlot: (id: string) => void;
+  clearSlots: () => void;
+}
+
+/**
+ * Weekly availability declared by the tutor, e.g. "Mon 09:00–12:00"
+ */
+export const useAvailabilityStore = create<AvailabilityState>()(
+  persist(
+    (set) => ({
+      slots: [],
+
+      /**
+       * Add a weekly slot
+       * @throws Error if the slot ends before it starts
+       */
+      addSlot: (day: number, start: string, end: string) => {
+        if (timeToMinutes(end) <= timeToMinutes(start)) {
+          throw new Error('The end time must be after the start time');
+        }
+        const slot: AvailabilitySlot = { id: `${day}-${start}-${end}-${Date.now()}`, day, start, end };
+        set((state) => ({
+          slots: [...state.slots, slot].sort(
+            (a, b) => a.day - b.day || timeToMinutes(a.start) - timeToMinutes(b.start)
+          ),
+        }));
+      },
+
+      removeSlot: (id: string) => {
+        set((state) => ({ slots: state.slots.filter((slot) => slot.id !== id) }));
+      },
+
+      clearSlots: () => {
+        set({ slots: [] });
+      },
+    }),
+    {
+      name: 'availability-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { BusyEvent } from '../types';
+import { BUSY_IMPORT } from '../constants';
+import { parseBusyEvents } from '../utils/ical';
+
+interface BusyState {
+  events: BusyEvent[];
+  fileName: string | null;
+  importedAt: string | null;
+  hideConflicting: boolean;
+  importCalendar: (file: File) => Promise<number>;
+  clearBusyTimes: () => void;
+  setHideConflicting: (hide: boolean) => void;
+}
+
+/**
+ * Busy times imported from the tutor's personal calendar
+ * Kept in local storage only and never mixed into the lesson store.
+ */
+export const useBusyStore = create<BusyState>()(
+  persist(
+    (set) => ({
+      events: [],
+      fileName: null,
+      importedAt: null,
+      hideConflicting: false,
+
+      /**
+       * Replace the busy times with the events of an .ics file
+       * @returns Number of events imported
+       * @throws Error if the file is too large, not a calendar or has no events
+       */
+      importCalendar: async (file: File) => {
+        if (file.size > BUSY_IMPORT.MAX_FILE_BYTES) {
+          throw new Error('The calendar file is too large');
+        }
+        const events = parseBusyEvents(await file.text());
+        if (events.length === 0) {
+          throw new Error('No events were found in the calendar file');
+        }
+        set({ events, fileName: file.name, importedAt: new Date().toISOString() });
+        return events.length;
+      },
+
+      clearBusyTimes: () => {
+        set({ events: [], fileName: null, importedAt: null });
+      },
+
+      setHideConflicting: (hide: boolean) => {
+        set({ hideConflicting: hide });
+      },
+    }),
+    {
+      name: 'busy-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -1,47 +1,572 @@
 import { create } from 'zustand';
-import { Lesson, LessonFilterType } from '../types';
-import { fetchLessons, takeClass as takeClassAPI } from '../services/api';
+import { endOfDay, startOfDay } from 'date-fns';
+import {
+  Lesson,
+  LessonAttendance,
+  LessonFilterType,
+  LessonPage,
+  LessonQuery,
+  LessonReportContent,
+  LessonSectionState,
+  LiveLessonEvent,
+  QueuedTakeClass,
+  ReplayFailure,
+} from '../types';
+import {
+  fetchLessons,
+  fetchLessonMonths as fetchLessonMonthsAPI,
+  fetchLessonById as fetchLessonByIdAPI,
+  takeClass as takeClassAPI,
+  completeLesson as completeLessonAPI,
+  releaseClass as releaseClassAPI,
+  saveAttendance as saveAttendanceAPI,
+  submitReport as submitReportAPI,
+} from '../services/api';
+import {
+  cacheLessons,
+  dequeueTakeClass,
+  enqueueTakeClass,
+  getQueuedTakeClasses,
+  loadCachedLessons,
+  removeCachedLessons,
+} from '../services/offlineCache';
+import { LessonConflictError, LessonGoneError, LessonOverlapError, NetworkError } from '../services/errors';
 import { useAuthStore } from './authStore';
+import { LESSON_PAGINATION, SCHEDULING_POLICY } from '../constants';
+import {
+  canMarkLessonDone,
+  canRecordAttendance,
+  canReleaseLesson,
+  canWriteReport,
+  filterVisibleLessons,
+  findConflictingLessons,
+  getLessonFetchRange,
+  getLessonWallClock,
+  getReleaseCutoffMessage,
+  hasPermission,
+  isPastReleaseDeadline,
+} from '../utils';
+
+interface TakeClassOptions {
+  /** Take the class even if it overlaps one of the tutor's lessons (when policy allows) */
+  allowOverlap?: boolean;
+}
+
+interface FetchLessonsOptions {
+  /** Refresh quietly, keeping the current content and reporting errors through refreshError */
+  background?: boolean;
+}
+
+type DateRange = { start: Date; end: Date };
+
+/**
+ * Outcome of taking a class: confirmed by the server, or queued until the connection returns
+ */
+export type TakeClassResult = 'taken' | 'queued';
+
+/**
+ * Dashboard sections, each loaded page by page on its own
+ */
+const SECTION_TYPES: LessonFilterType[] = ['Today', 'Available', 'Upcoming', 'Historic'];
+
+const EMPTY_SECTION: LessonSectionState = { loading: false, error: null, nextCursor: null, total: 0 };
+
+/**
+ * Latest request per section, so responses to superseded requests are ignored
+ */
+const sectionRequests: Record<LessonFilterType, number> = { Today: 0, Available: 0, Upcoming: 0, Historic: 0 };
+
+/**
+ * Bumped on logout, so page loads started for the previous user stop early
+ */
+let sessionGeneration = 0;
+
+/**
+ * Build the API query for a section
+ * Today's section is today's part of the range; it has no query when the range excludes today.
+ * The range is widened to every lesson that may be held on those days in its own timezone.
+ * @param type - Section to load
+ * @param range - Optional date range the dashboard is filtered to
+ * @returns The query, or null if the section cannot have any lessons
+ */
+const buildSectionQuery = (type: LessonFilterType, range: DateRange | null): LessonQuery | null => {
+  if (type === 'Today') {
+    const now = new Date();
+    const start = range && range.start > startOfDay(now) ? range.start : startOfDay(now);
+    const end = range && range.end < endOfDay(now) ? range.end : endOfDay(now);
+    if (start > end) {
+      return null;
+    }
+    const fetchRange = getLessonFetchRange(start, end);
+    return { from: fetchRange.start.toISOString(), to: fetchRange.end.toISOString() };
+  }
+  const fetchRange = range && getLessonFetchRange(range.start, range.end);
+  return { type, from: fetchRange?.start.toISOString(), to: fetchRange?.end.toISOString() };
+};
+
+/**
+ * Add or replace lessons by id, keeping the existing ones
+ */
+const mergeLessons = (existing: Lesson[], incoming: Lesson[]): Lesson[] => {
+  const byId = new Map(existing.map((lesson) => [lesson.id, lesson]));
+  incoming.forEach((lesson) => byId.set(lesson.id, lesson));
+  return Array.from(byId.values());
+};
+
+/**
+ * Check whether a lesson matches the filters of a query
+ */
+const matchesQuery = (lesson: Lesson, query: LessonQuery): boolean => {
+  const start = new Date(lesson.date);
+  return (
+    (!query.type || lesson.type === query.type) &&
+    (!query.from || start >= new Date(query.from)) &&
+    (!query.to || start <= new Date(query.to)) &&
+    (!query.student || lesson.students.includes(query.student))
+  );
+};
+
+/**
+ * Replace the lessons covered by a page of a query with the page's lessons
+ *
+ * Pages are sorted by start time (historic lessons newest first), so a page covers
+ * every matching lesson between the previous page's last lesson and its own last
+ * lesson, or to the end of the query when it is the last page. Matching lessons in
+ * that span that are missing from the page were removed or moved on the server, so
+ * they are dropped, from the offline cache too. Lessons starting exactly at a
+ * boundary are kept, as they may belong to the neighbouring page.
+ *
+ * @param existing - Lessons in the store
+ * @param query - Query the page was loaded with
+ * @param page - The loaded page
+ * @param previous - Last lesson of the previous page; omit for the first page
+ */
+const replacePageLessons = (existing: Lesson[], query: LessonQuery, page: LessonPage, previous?: Lesson): Lesson[] => {
+  const direction = query.type === 'Historic' ? -1 : 1;
+  const position = (lesson: Lesson) => direction * new Date(lesson.date).getTime();
+  const last = page.lessons[page.lessons.length - 1];
+  const covers = (lesson: Lesson) =>
+    matchesQuery(lesson, query) &&
+    (!previous || position(lesson) > position(previous)) &&
+    (!page.nextCursor || (!!last && position(lesson) < position(last)));
+  const incomingIds = new Set(page.lessons.map((lesson) => lesson.id));
+  const dropped = existing.filter((lesson) => covers(lesson) && !incomingIds.has(lesson.id));
+  if (dropped.length > 0) {
+    removeCachedLessons(dropped.map((lesson) => lesson.id)).catch(() => undefined);
+  }
+  return mergeLessons(existing.filter((lesson) => !covers(lesson)), page.lessons);
+};
+
+/**
+ * Load every page of a query, up to LESSON_PAGINATION.MAX_RANGE_PAGES
+ * @param query - Query without cursor or page size
+ * @param onPage - Called with each page as it arrives and the last lesson of the page before it
+ */
+const fetchAllPages = async (query: LessonQuery, onPage: (page: LessonPage, previous?: Lesson) => void) => {
+  const generation = sessionGeneration;
+  let cursor: string | undefined;
+  let previous: Lesson | undefined;
+  for (let page = 0; page < LESSON_PAGINATION.MAX_RANGE_PAGES; page++) {
+    const result = await fetchLessons({ ...query, cursor, limit: LESSON_PAGINATION.MAX_PAGE_SIZE });
+    if (generation !== sessionGeneration) {
+      return;
+    }
+    saveToCache(result.lessons);
+    onPage(result, previous);
+    if (!result.nextCursor) {
+      return;
+    }
+    cursor = result.nextCursor;
+    previous = result.lessons[result.lessons.length - 1] || previous;
+  }
+};
+
+/**
+ * Show lessons with a queued claim as taken by the tutor, e.g. after loading them from the cache
+ */
+const applyQueuedTakes = (lessons: Lesson[], queue: QueuedTakeClass[], tutor: string): Lesson[] => {
+  const queuedIds = new Set(queue.map((action) => action.lessonId));
+  return lessons.map((lesson) =>
+    queuedIds.has(lesson.id) && lesson.type === 'Available'
+      ? { ...lesson, type: 'Upcoming', status: 'Confirmed', tutor }
+      : lesson
+  );
+};
+
+/**
+ * Save lessons for offline use; the cache is best effort, so failures are ignored
+ */
+const saveToCache = (lessons: Lesson[]) => {
+  cacheLessons(lessons).catch(() => undefined);
+};
+
+/**
+ * Explain why a queued claim failed when it was replayed
+ */
+const getReplayFailureMessage = (error: unknown): string => {
+  if (error instanceof LessonConflictError) {
+    return 'Another tutor took this class while you were offline';
+  }
+  if (error instanceof LessonGoneError) {
+    return 'This class was removed while you were offline';
+  }
+  return error instanceof Error ? error.message : 'Failed to take class';
+};
+
+/**
+ * Whether the queue is being replayed, so overlapping replays do not send a claim twice
+ */
+let replaying = false;
 
 interface LessonState {
+  /** Every lesson loaded so far, from any section, page or range */
   lessons: Lesson[];
+  /** True while the first lessons are loading */
   loading: boolean;
   error: string | null;
-  fetchLessonsData: () => Promise<void>;
-  takeClass: (lessonId: string) => Promise<void>;
+  sections: Record<LessonFilterType, LessonSectionState>;
+  /** Date range the sections were last loaded for */
+  sectionRange: DateRange | null;
+  /** When the cached lessons being shown were saved; null while showing live data */
+  cachedAt: string | null;
+  /** When the lessons were last loaded from the server */
+  lastUpdated: string | null;
+  /** True while a background refresh is in flight */
+  refreshing: boolean;
+  /** Error from the last background refresh, to show as a toast */
+  refreshError: string | null;
+  /** Months (DATE_FILTER.MONTH_FORMAT) the API reports lessons in, for the month filter */
+  lessonMonths: string[];
+  /** Claims made while offline, sent when the connection returns */
+  queuedTakeClasses: QueuedTakeClass[];
+  /** Queued claims the server rejected when they were replayed */
+  replayFailures: ReplayFailure[];
+  fetchLessonsData: (dateRange?: DateRange, options?: FetchLessonsOptions) => Promise<void>;
+  refreshLessons: () => Promise<void>;
+  clearRefreshError: () => void;
+  loadMoreLessons: (type: LessonFilterType) => Promise<void>;
+  fetchLessonsInRange: (start: Date, end: Date) => Promise<void>;
+  fetchStudentLessons: (student: string) => Promise<void>;
+  fetchLessonMonths: (start: Date, end: Date) => Promise<void>;
+  fetchLessonById: (lessonId: string) => Promise<Lesson>;
+  takeClass: (lessonId: string, options?: TakeClassOptions) => Promise<TakeClassResult>;
+  loadQueuedTakeClasses: () => Promise<void>;
+  replayQueuedTakeClasses: () => Promise<void>;
+  dismissReplayFailures: () => void;
+  applyLiveEvent: (event: LiveLessonEvent) => void;
+  completeLesson: (lessonId: string) => Promise<void>;
+  releaseClass: (lessonId: string, reason: string) => Promise<void>;
+  saveAttendance: (lessonId: string, attendance: LessonAttendance) => Promise<void>;
+  submitReport: (lessonId: string, report: LessonReportContent) => Promise<void>;
   filteredLessons: (type?: LessonFilterType, dateRange?: { start: Date; end: Date }) => Lesson[];
 }
 
-export const useLessonStore = create<LessonState>((set, get) => ({
+/**
+ * Lesson data before anything is loaded, restored on logout
+ */
+const INITIAL_STATE: Pick<
+  LessonState,
+  | 'lessons'
+  | 'loading'
+  | 'error'
+  | 'sections'
+  | 'sectionRange'
+  | 'cachedAt'
+  | 'lastUpdated'
+  | 'refreshing'
+  | 'refreshError'
+  | 'lessonMonths'
+  | 'queuedTakeClasses'
+  | 'replayFailures'
+> = {
   lessons: [],
   loading: false,
   error: null,
-  fetchLessonsData: async () => {
-    set({ loading: true, error: null });
+  sections: { Today: EMPTY_SECTION, Available: EMPTY_SECTION, Upcoming: EMPTY_SECTION, Historic: EMPTY_SECTION },
+  sectionRange: null,
+  cachedAt: null,
+  lastUpdated: null,
+  refreshing: false,
+  refreshError: null,
+  lessonMonths: [],
+  queuedTakeClasses: [],
+  replayFailures: [],
+};
+
+export const useLessonStore = create<LessonState>((set, get) => ({
+  ...INITIAL_STATE,
+  /**
+   * Load the first page of every dashboard section
+   *
+   * Each section is requested on its own with the type and date range filters applied
+   * by the API. Loaded lessons are merged into `lessons` and saved to the offline cache.
+   * On the first load, lessons cached by an earlier visit are shown right away while
+   * the sections load.
+   *
+   * A background refresh keeps the current content and section states: failures set
+   * `refreshError` (for a toast) instead of the section and page-level errors, and
+   * sections already paged past the first page keep their cursor.
+   *
+   * Otherwise, when every section fails (e.g. offline), the cached lessons are shown
+   * instead and `cachedAt` is set; the page-level error is only set when there is no
+   * cache either. Once lessons load again, any claims queued while offline are replayed.
+   *
+   * @param dateRange - Optional range the dashboard is filtered to (month or date range)
+   * @param options - Optional flags, e.g. background for a quiet refresh
+   */
+  fetchLessonsData: async (dateRange?: DateRange, options: FetchLessonsOptions = {}) => {
+    const range = dateRange || null;
+    const { background = false } = options;
+    if (background) {
+      set({ refreshing: true, refreshError: null });
+    } else {
+      set((state) => ({ loading: state.lessons.length === 0, error: null, sectionRange: range }));
+    }
+
+    // Stale-while-revalidate: show the cached lessons while the first load is in flight
+    if (get().lessons.length === 0) {
+      const cached = await loadCachedLessons().catch(() => null);
+      if (cached && get().lessons.length === 0) {
+        set((state) => ({
+          loading: false,
+          lastUpdated: cached.cachedAt,
+          lessons: applyQueuedTakes(cached.lessons, state.queuedTakeClasses, useAuthStore.getState().user?.name || 'Unknown Tutor'),
+        }));
+      }
+    }
+
+    const results = await Promise.all(
+      SECTION_TYPES.map(async (type) => {
+        const requestId = ++sectionRequests[type];
+        const query = buildSectionQuery(type, range);
+        if (!query) {
+          set((state) => ({ sections: { ...state.sections, [type]: EMPTY_SECTION } }));
+          return null;
+        }
+        if (!background) {
+          set((state) => ({ sections: { ...state.sections, [type]: { ...state.sections[type], loading: true, error: null } } }));
+        }
+        try {
+          const page = await fetchLessons(query);
+          if (requestId === sectionRequests[type]) {
+            saveToCache(page.lessons);
+            set((state) => {
+              // Only a foreground load resets paging
+              const current = state.sections[type];
+              const nextCursor = background && !current.error ? current.nextCursor : page.nextCursor;
+              return {
+                lessons: replacePageLessons(get().lessons, query, page),
+                sections: {
+                  ...state.sections,
+                  [type]: { loading: false, error: null, nextCursor, total: page.total },
+                },
+              };
+            });
+          }
+          return null;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch lessons data';
+          if (!background && requestId === sectionRequests[type]) {
+            set((state) => ({
+              sections: { ...state.sections, [type]: { ...EMPTY_SECTION, error: message } },
+            }));
+          }
+          return message;
+        }
+      })
+    );
+
+    const failures = results.filter((message): message is string => message !== null);
+    if (background) {
+      set({
+        refreshing: false,
+        refreshError: failures.length > 0 ? failures[0] : null,
+        ...(failures.length < SECTION_TYPES.length && { lastUpdated: new Date().toISOString(), cachedAt: null }),
+      });
+      if (failures.length < SECTION_TYPES.length && get().queuedTakeClasses.length > 0) {
+        await get().replayQueuedTakeClasses();
+      }
+      return;
+    }
+
+    if (failures.length < SECTION_TYPES.length) {
+      set({ loading: false, error: null, cachedAt: null, lastUpdated: new Date().toISOString() });
+      if (get().queuedTakeClasses.length > 0) {
+        await get().replayQueuedTakeClasses();
+      }
+      return;
+    }
+
+    // Every section failed: fall back to the lessons cached by an earlier visit
+    const cached = await loadCachedLessons().catch(() => null);
+    if (!cached) {
+      set({ loading: false, error: failures[0] });
+      return;
+    }
+    set((state) => ({
+      loading: false,
+      error: null,
+      cachedAt: cached.cachedAt,
+      lessons: mergeLessons(
+        applyQueuedTakes(cached.lessons, state.queuedTakeClasses, useAuthStore.getState().user?.name || 'Unknown Tutor'),
+        state.lessons
+      ),
+      sections: { Today: EMPTY_SECTION, Available: EMPTY_SECTION, Upcoming: EMPTY_SECTION, Historic: EMPTY_SECTION },
+    }));
+  },
+  /**
+   * Quietly reload the sections for the current range, e.g. on window focus or a timer
+   * Does nothing while a load or another refresh is in progress.
+   */
+  refreshLessons: async () => {
+    const { loading, refreshing, sectionRange, fetchLessonsData } = get();
+    if (loading || refreshing) {
+      return;
+    }
+    await fetchLessonsData(sectionRange || undefined, { background: true });
+  },
+  /**
+   * Clear the background refresh error once it has been shown
+   */
+  clearRefreshError: () => set({ refreshError: null }),
+  /**
+   * Load the next page of a section, for "load more" and infinite scroll
+   * Does nothing while the section is loading or when it has no more pages.
+   * @param type - Section to load more lessons for
+   */
+  loadMoreLessons: async (type: LessonFilterType) => {
+    const { sections, sectionRange } = get();
+    const section = sections[type];
+    const query = buildSectionQuery(type, sectionRange);
+    if (!query || section.loading || !section.nextCursor) {
+      return;
+    }
+
+    const requestId = ++sectionRequests[type];
+    set((state) => ({ sections: { ...state.sections, [type]: { ...section, loading: true, error: null } } }));
     try {
-      const data = await fetchLessons();
-      set({ lessons: data, loading: false });
+      const page = await fetchLessons({ ...query, cursor: section.nextCursor });
+      if (requestId === sectionRequests[type]) {
+        saveToCache(page.lessons);
+        set((state) => ({
+          lessons: mergeLessons(state.lessons, page.lessons),
+          sections: {
+            ...state.sections,
+            [type]: { loading: false, error: null, nextCursor: page.nextCursor, total: page.total },
+          },
+        }));
+      }
     } catch (error) {
-      set({ 
-        error: error instanceof Error ? error.message : 'Failed to fetch lessons data',
-        loading: false 
-      });
+      if (requestId === sectionRequests[type]) {
+        set((state) => ({
+          sections: {
+            ...state.sections,
+            [type]: { ...section, loading: false, error: error instanceof Error ? error.message : 'Failed to load more lessons' },
+          },
+        }));
+      }
     }
   },
+  /**
+   * Load every lesson that starts within a range, e.g. for the calendar views
+   * Pages are followed until the range is complete (up to LESSON_PAGINATION.MAX_RANGE_PAGES).
+   * The range is in wall-clock time, so lessons held in it in their own timezone are included.
+   * @param start - Start of the range
+   * @param end - End of the range
+   * @throws Error if a page fails to load
+   */
+  fetchLessonsInRange: async (start: Date, end: Date) => {
+    const fetchRange = getLessonFetchRange(start, end);
+    const query: LessonQuery = { from: fetchRange.start.toISOString(), to: fetchRange.end.toISOString() };
+    await fetchAllPages(query, (page, previous) =>
+      set({ lessons: replacePageLessons(get().lessons, query, page, previous) })
+    );
+  },
+  /**
+   * Load every lesson with a student, e.g. for the student profile page
+   * Pages are followed up to LESSON_PAGINATION.MAX_RANGE_PAGES.
+   * @param student - Student name as listed in Lesson.students
+   * @throws Error if a page fails to load
+   */
+  fetchStudentLessons: async (student: string) => {
+    const query: LessonQuery = { student };
+    await fetchAllPages(query, (page, previous) =>
+      set({ lessons: replacePageLessons(get().lessons, query, page, previous) })
+    );
+  },
+  /**
+   * Load the months that have lessons within a range, including months whose
+   * lessons have not been loaded yet
+   * On failure the months already known are kept.
+   * @param start - Start of the range
+   * @param end - End of the range
+   */
+  fetchLessonMonths: async (start: Date, end: Date) => {
+    try {
+      set({ lessonMonths: await fetchLessonMonthsAPI(start, end) });
+    } catch {
+      // The month filter falls back to the months of the loaded lessons
+    }
+  },
+  /**
+   * Get a single lesson by id
+   *
+   * Returns the lesson from the store when it has already been loaded, otherwise
+   * fetches it from the API and adds it to the store so other views can reuse it.
+   *
+   * @param lessonId - ID of the lesson to get
+   * @returns Promise resolving to the lesson
+   * @throws Error if the lesson does not exist or the request fails
+   */
+  fetchLessonById: async (lessonId: string) => {
+    const existing = get().lessons.find((lesson) => lesson.id === lessonId);
+    if (existing) {
+      return existing;
+    }
+
+    const lesson = await fetchLessonByIdAPI(lessonId);
+    set((state) => ({
+      lessons: state.lessons.some((l) => l.id === lesson.id)
+        ? state.lessons.map((l) => (l.id === lesson.id ? lesson : l))
+        : [...state.lessons, lesson],
+    }));
+    return lesson;
+  },
   /**
    * Take/claim an available class
    * 
    * This function updates a lesson from 'Available' to 'Upcoming' status
    * when a tutor takes an available class. It:
+   * - Applies the change optimistically so the lesson leaves Available right away
    * - Makes an API call to persist the change on the server
    * - Updates local state with the response from the API
-   * - Handles errors gracefully
+   * - Rolls the lesson back if the API call fails
+   * 
+   * When another tutor claimed the slot first (409), the lesson is re-fetched so it
+   * shows its real owner and drops out of Available. When the lesson no longer
+   * exists (410), it is removed from the list.
+   * 
+   * While offline (or when the server cannot be reached) the claim is queued in
+   * IndexedDB instead and the lesson stays shown as taken; see replayQueuedTakeClasses.
+   * 
+   * Before anything is changed, the lesson is checked against the tutor's upcoming
+   * lessons; a clash raises LessonOverlapError unless an override is allowed.
    * 
    * @param lessonId - ID of the lesson to take
-   * @throws Error if the API call fails or the lesson is not found
+   * @param options - Optional flags, e.g. allowOverlap to confirm a double-booking
+   * @returns 'taken' once the server confirms the claim, or 'queued' if it will be sent later
+   * @throws LessonOverlapError if the class clashes with the tutor's lessons
+   * @throws LessonConflictError if another tutor took the class first
+   * @throws LessonGoneError if the class no longer exists
+   * @throws Error if the user may not take classes, the API call fails or the lesson is not found
    */
-  takeClass: async (lessonId: string) => {
+  takeClass: async (lessonId: string, options: TakeClassOptions = {}) => {
     const { lessons } = get();
+    const currentUser = useAuthStore.getState().user;
+
+    if (!hasPermission(currentUser, 'takeClass')) {
+      throw new Error('You do not have permission to take classes');
+    }
     
     // Find the lesson to ensure it exists and is available
     const lessonToTake = lessons.find(
@@ -52,14 +577,51 @@ export const useLessonStore = create<LessonState>((set, get) => ({
       throw new Error('Lesson not found or not available');
     }
 
+    // Prevent double-booking against the tutor's own upcoming lessons
+    const conflicts = findConflictingLessons(lessonToTake, lessons, currentUser?.name);
+    if (conflicts.length > 0 && !(options.allowOverlap && SCHEDULING_POLICY.ALLOW_OVERLAP_OVERRIDE)) {
+      throw new LessonOverlapError(lessonId, conflicts);
+    }
+
+    const replaceLesson = (replacement: Lesson) =>
+      set((state) => ({
+        lessons: state.lessons.map((lesson) => (lesson.id === lessonId ? replacement : lesson)),
+      }));
+
+    // Optimistic update: show the class as taken while the request is in flight
+    replaceLesson({
+      ...lessonToTake,
+      type: 'Upcoming',
+      status: 'Confirmed',
+      tutor: currentUser?.name || 'Unknown Tutor',
+    });
+
+    // Keep the claim until the connection returns
+    const queueClaim = async (networkError: NetworkError): Promise<TakeClassResult> => {
+      const action: QueuedTakeClass = {
+        id: `${lessonId}-${Date.now()}`,
+        lessonId,
+        queuedAt: new Date().toISOString(),
+      };
+      try {
+        await enqueueTakeClass(action);
+      } catch {
+        // Without somewhere to keep the claim, report the network failure as usual
+        replaceLesson(lessonToTake);
+        throw networkError;
+      }
+      set((state) => ({ queuedTakeClasses: [...state.queuedTakeClasses, action] }));
+      return 'queued';
+    };
+
+    if (!navigator.onLine) {
+      return queueClaim(new NetworkError());
+    }
+
     try {
       // Call the API to take the class
       const updatedLesson = await takeClassAPI(lessonId);
       
-      // Get current user from auth store
-      const authState = useAuthStore.getState();
-      const currentUser = authState.user?.name || 'Unknown Tutor';
-      
       // Merge API response with local lesson data
       // API may return partial data, so we merge with existing lesson data
       const finalLesson: Lesson = {
@@ -67,23 +629,288 @@ export const useLessonStore = create<LessonState>((set, get) => ({
         ...updatedLesson,
         // Ensure required fields are set correctly
         type: (updatedLesson.type || 'Upcoming') as Lesson['type'],
-        tutor: updatedLesson.tutor || currentUser,
+        tutor: updatedLesson.tutor || currentUser?.name || 'Unknown Tutor',
         status: (updatedLesson.status || 'Confirmed') as Lesson['status'],
         // Preserve students if API doesn't return them
         students: updatedLesson.students ?? lessonToTake.students ?? [],
       };
       
-      // Update local state with the merged lesson data
-      const updatedLessons = lessons.map((lesson) =>
-        lesson.id === lessonId ? finalLesson : lesson
-      );
-      
-      set({ lessons: updatedLessons });
+      replaceLesson(finalLesson);
+      saveToCache([finalLesson]);
+      return 'taken';
     } catch (error) {
+      if (error instanceof NetworkError) {
+        return queueClaim(error);
+      }
+
+      // Roll back the optimistic update
+      replaceLesson(lessonToTake);
+
+      if (error instanceof LessonGoneError) {
+        set((state) => ({ lessons: state.lessons.filter((lesson) => lesson.id !== lessonId) }));
+      } else if (error instanceof LessonConflictError) {
+        // Refresh the lesson so it shows who took it and leaves the Available list
+        try {
+          replaceLesson(await fetchLessonByIdAPI(lessonId));
+        } catch {
+          // Keep the rolled-back lesson if it cannot be refreshed
+        }
+      }
+
       // Re-throw the error so the caller can handle it (e.g., show toast)
       throw error;
     }
   },
+  /**
+   * Load the claims queued in IndexedDB, e.g. after the page was reloaded while offline
+   */
+  loadQueuedTakeClasses: async () => {
+    try {
+      const queuedTakeClasses = await getQueuedTakeClasses();
+      const tutor = useAuthStore.getState().user?.name || 'Unknown Tutor';
+      set((state) => ({
+        queuedTakeClasses,
+        lessons: applyQueuedTakes(state.lessons, queuedTakeClasses, tutor),
+      }));
+    } catch {
+      // IndexedDB unavailable: nothing can have been queued
+    }
+  },
+  /**
+   * Send the claims queued while offline, oldest first
+   *
+   * Each claim that succeeds updates its lesson. A claim the server rejects
+   * (e.g. another tutor took the class in the meantime) is dropped from the queue,
+   * its lesson is refreshed or removed, and it is added to `replayFailures` so
+   * the tutor can be told. Replay stops at the first network failure and the
+   * remaining claims stay queued.
+   */
+  replayQueuedTakeClasses: async () => {
+    if (replaying) {
+      return;
+    }
+    replaying = true;
+
+    const replaceLesson = (replacement: Lesson) =>
+      set((state) => ({
+        lessons: state.lessons.map((lesson) => (lesson.id === replacement.id ? replacement : lesson)),
+      }));
+    const dequeue = async (action: QueuedTakeClass) => {
+      await dequeueTakeClass(action.id).catch(() => undefined);
+      set((state) => ({ queuedTakeClasses: state.queuedTakeClasses.filter((queued) => queued.id !== action.id) }));
+    };
+
+    try {
+      for (const action of [...get().queuedTakeClasses]) {
+        const lesson = get().lessons.find((l) => l.id === action.lessonId);
+        try {
+          const updatedLesson = await takeClassAPI(action.lessonId);
+          const finalLesson: Lesson = { ...lesson, ...updatedLesson, students: updatedLesson.students ?? lesson?.students ?? [] };
+          replaceLesson(finalLesson);
+          saveToCache([finalLesson]);
+          await dequeue(action);
+        } catch (error) {
+          if (error instanceof NetworkError) {
+            break;
+          }
+          await dequeue(action);
+          set((state) => ({
+            replayFailures: [
+              ...state.replayFailures,
+              { lessonId: action.lessonId, subject: lesson?.subject || action.lessonId, message: getReplayFailureMessage(error) },
+            ],
+          }));
+
+          if (error instanceof LessonGoneError) {
+            set((state) => ({ lessons: state.lessons.filter((l) => l.id !== action.lessonId) }));
+            removeCachedLessons([action.lessonId]).catch(() => undefined);
+            continue;
+          }
+          // Refresh the lesson so it shows its real owner instead of the queued claim
+          try {
+            const refreshed = await fetchLessonByIdAPI(action.lessonId);
+            replaceLesson(refreshed);
+            saveToCache([refreshed]);
+          } catch {
+            // Keep the lesson as it is if it cannot be refreshed
+          }
+        }
+      }
+    } finally {
+      replaying = false;
+    }
+  },
+  /**
+   * Clear the replay failures once the tutor has seen them
+   */
+  dismissReplayFailures: () => set({ replayFailures: [] }),
+  /**
+   * Apply a lesson event from the live updates channel
+   *
+   * Created and changed lessons are added or replaced. A taken lesson moves to
+   * its new tutor, so a slot claimed by another tutor leaves Available right away;
+   * taken events for lessons that were never loaded are ignored.
+   *
+   * @param event - Lesson event from the server
+   */
+  applyLiveEvent: (event: LiveLessonEvent) => {
+    if (event.type === 'lesson.taken') {
+      const lesson = get().lessons.find((l) => l.id === event.lessonId);
+      if (!lesson) {
+        return;
+      }
+      const taken: Lesson = { ...lesson, type: 'Upcoming', status: 'Confirmed', tutor: event.tutor };
+      set((state) => ({ lessons: state.lessons.map((l) => (l.id === taken.id ? taken : l)) }));
+      saveToCache([taken]);
+      return;
+    }
+    set((state) => ({ lessons: mergeLessons(state.lessons, [event.lesson]) }));
+    saveToCache([event.lesson]);
+  },
+  /**
+   * Mark a confirmed lesson as done
+   *
+   * Moves the lesson from 'Upcoming'/'Confirmed' to 'Historic'/'Completed' once it
+   * has started. Only the lesson's own tutor or users allowed to edit lessons may do this.
+   *
+   * @param lessonId - ID of the lesson to complete
+   * @throws Error if the lesson cannot be marked as done or the API call fails
+   */
+  completeLesson: async (lessonId: string) => {
+    const lesson = get().lessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    if (!canMarkLessonDone(lesson, useAuthStore.getState().user)) {
+      throw new Error('This lesson cannot be marked as done');
+    }
+
+    const updatedLesson = await completeLessonAPI(lessonId);
+    const finalLesson: Lesson = {
+      ...lesson,
+      ...updatedLesson,
+      type: 'Historic',
+      status: 'Completed',
+    };
+
+    set((state) => ({
+      lessons: state.lessons.map((l) => (l.id === lessonId ? finalLesson : l)),
+    }));
+    saveToCache([finalLesson]);
+  },
+  /**
+   * Release/drop a taken class
+   *
+   * Returns an upcoming lesson to 'Available' so another tutor can take it.
+   * Releases are blocked once the lesson starts within the configured cutoff
+   * (RELEASE_POLICY.CUTOFF_HOURS).
+   *
+   * @param lessonId - ID of the lesson to release
+   * @param reason - Why the tutor is giving the class up
+   * @throws Error if the lesson cannot be released, the cutoff has passed or the API call fails
+   */
+  releaseClass: async (lessonId: string, reason: string) => {
+    const lesson = get().lessons.find((l) => l.id === lessonId);
+    if (!lesson || !canReleaseLesson(lesson, useAuthStore.getState().user)) {
+      throw new Error('Lesson not found or cannot be released');
+    }
+    if (isPastReleaseDeadline(lesson)) {
+      throw new Error(getReleaseCutoffMessage());
+    }
+    if (!reason.trim()) {
+      throw new Error('Please give a reason for releasing the class');
+    }
+
+    const updatedLesson = await releaseClassAPI(lessonId, reason.trim());
+    const finalLesson: Lesson = {
+      ...lesson,
+      ...updatedLesson,
+      type: 'Available',
+      status: 'Available',
+      tutor: null,
+    };
+
+    set((state) => ({
+      lessons: state.lessons.map((l) => (l.id === lessonId ? finalLesson : l)),
+    }));
+  },
+  /**
+   * Record which students attended a lesson
+   *
+   * Only students listed on the lesson are saved. Attendance can be recorded for
+   * taken lessons from today or earlier by their tutor or users allowed to edit lessons.
+   *
+   * @param lessonId - ID of the lesson
+   * @param attendance - Attendance per student name
+   * @throws Error if attendance cannot be recorded for the lesson or the API call fails
+   */
+  saveAttendance: async (lessonId: string, attendance: LessonAttendance) => {
+    const lesson = get().lessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    if (!canRecordAttendance(lesson, useAuthStore.getState().user)) {
+      throw new Error('Attendance cannot be recorded for this lesson');
+    }
+
+    const studentAttendance: LessonAttendance = Object.fromEntries(
+      lesson.students.filter((student) => attendance[student]).map((student) => [student, attendance[student]])
+    );
+    const updatedLesson = await saveAttendanceAPI(lessonId, studentAttendance);
+    const finalLesson: Lesson = {
+      ...lesson,
+      ...updatedLesson,
+      attendance: updatedLesson.attendance ?? studentAttendance,
+    };
+
+    set((state) => ({
+      lessons: state.lessons.map((l) => (l.id === lessonId ? finalLesson : l)),
+    }));
+    saveToCache([finalLesson]);
+  },
+  /**
+   * Submit the post-lesson report
+   *
+   * Student sections are kept only for students listed on the lesson, and empty
+   * sections are dropped. At least one section must have content.
+   *
+   * @param lessonId - ID of the lesson
+   * @param report - Lesson notes and per-student progress reports
+   * @throws Error if the report cannot be written for the lesson, is empty or the API call fails
+   */
+  submitReport: async (lessonId: string, report: LessonReportContent) => {
+    const lesson = get().lessons.find((l) => l.id === lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    if (!canWriteReport(lesson, useAuthStore.getState().user)) {
+      throw new Error('You cannot write the report for this lesson');
+    }
+
+    const content: LessonReportContent = {
+      notes: report.notes.trim(),
+      students: Object.fromEntries(
+        lesson.students
+          .map((student) => [student, (report.students[student] || '').trim()])
+          .filter(([, text]) => text)
+      ),
+    };
+    if (!content.notes && Object.keys(content.students).length === 0) {
+      throw new Error('Write some notes or a student report before submitting');
+    }
+
+    const updatedLesson = await submitReportAPI(lessonId, content);
+    const finalLesson: Lesson = {
+      ...lesson,
+      ...updatedLesson,
+      report: updatedLesson.report ?? { ...content, submittedAt: new Date().toISOString() },
+    };
+
+    set((state) => ({
+      lessons: state.lessons.map((l) => (l.id === lessonId ? finalLesson : l)),
+    }));
+    saveToCache([finalLesson]);
+  },
   /**
    * Filter lessons by type and/or date range
    * 
@@ -91,16 +918,21 @@ export const useLessonStore = create<LessonState>((set, get) => ({
    * - Type filter: filters by lesson type (Historic, Upcoming, Available) or 'Today' for today's lessons
    * - Date range filter: filters lessons within a specific date range
    * 
+   * Lessons assigned to other tutors are left out unless the current user
+   * has the 'viewOtherTutors' permission.
+   * 
    * Note: When 'Today' is used as the type, it filters lessons scheduled for today
    * regardless of their actual type (Historic, Upcoming, or Available).
    * 
+   * Only lessons loaded so far are included; sections load more with loadMoreLessons.
+   * 
    * @param type - Optional lesson type filter (Historic, Upcoming, Available, or 'Today')
    * @param dateRange - Optional date range filter with start and end dates
    * @returns Filtered array of lessons matching the criteria
    */
   filteredLessons: (type?: LessonFilterType, dateRange?: { start: Date; end: Date }) => {
     const { lessons } = get();
-    let filtered = [...lessons];
+    let filtered = filterVisibleLessons(lessons, useAuthStore.getState().user);
 
     // Filter by type
     if (type) {
@@ -112,7 +944,7 @@ export const useLessonStore = create<LessonState>((set, get) => ({
         tomorrow.setDate(tomorrow.getDate() + 1); // Start of tomorrow (exclusive end)
         
         filtered = filtered.filter(lesson => {
-          const lessonDate = new Date(lesson.date);
+          const lessonDate = getLessonWallClock(lesson);
           return lessonDate >= today && lessonDate < tomorrow;
         });
       } else {
@@ -124,13 +956,45 @@ export const useLessonStore = create<LessonState>((set, get) => ({
     // Filter by date range
     if (dateRange) {
       filtered = filtered.filter(lesson => {
-        const lessonDate = new Date(lesson.date);
+        // Lessons are placed by their wall-clock start, like the calendar views
+        const lessonDate = getLessonWallClock(lesson);
         // Include lessons that fall within the date range (inclusive)
         return lessonDate >= dateRange.start && lessonDate <= dateRange.end;
       });
     }
 
-    return filtered;
+    // Match the API order: Historic lessons newest first, the rest oldest first
+    return [...filtered].sort((a, b) => {
+      const order = new Date(a.date).getTime() - new Date(b.date).getTime();
+      return type === 'Historic' ? -order : order;
+    });
   },
 }));
 
+// Restore claims queued before the page was closed, and send them once the connection returns
+useLessonStore.getState().loadQueuedTakeClasses();
+
+// Logging out clears the offline data, so forget everything loaded for the previous user
+// and ignore responses still in flight for them
+useAuthStore.subscribe((state, previous) => {
+  if (previous.isAuthenticated && !state.isAuthenticated) {
+    sessionGeneration++;
+    SECTION_TYPES.forEach((type) => sectionRequests[type]++);
+    useLessonStore.setState(INITIAL_STATE);
+  }
+});
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    const { cachedAt, sectionRange, fetchLessonsData, replayQueuedTakeClasses } = useLessonStore.getState();
+    if (!useAuthStore.getState().isAuthenticated) {
+      return;
+    }
+    if (cachedAt) {
+      // Reloading the sections replays the queue once lessons load
+      fetchLessonsData(sectionRange || undefined);
+    } else {
+      replayQueuedTakeClasses();
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { PayRates } from '../types';
+import { fetchPayRates } from '../services/api';
+import { useAuthStore } from './authStore';
+
+interface PayRatesState {
+  rates: PayRates | null;
+  loading: boolean;
+  error: string | null;
+  fetchRates: () => Promise<void>;
+}
+
+/**
+ * The signed-in tutor's pay rates, loaded from the API on first use
+ */
+export const usePayRatesStore = create<PayRatesState>((set, get) => ({
+  rates: null,
+  loading: false,
+  error: null,
+
+  /**
+   * Load the pay rates unless they are already loaded or loading
+   * Errors are kept in the store rather than thrown.
+   */
+  fetchRates: async () => {
+    if (get().rates || get().loading) {
+      return;
+    }
+    set({ loading: true, error: null });
+    try {
+      const rates = await fetchPayRates();
+      set({ rates, loading: false });
+    } catch (error) {
+      set({
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to load pay rates',
+      });
+    }
+  },
+}));
+
+// Rates belong to the signed-in tutor, so forget them on logout
+useAuthStore.subscribe((state, previous) => {
+  if (previous.isAuthenticated && !state.isAuthenticated) {
+    usePayRatesStore.setState({ rates: null, error: null });
+  }
+});
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { REMINDERS } from '../constants';
+
+interface ReminderState {
+  /** Whether the tutor opted in to browser reminders */
+  enabled: boolean;
+  /** Minutes before each upcoming lesson to remind, largest first */
+  leadTimes: number[];
+  setEnabled: (enabled: boolean) => void;
+  addLeadTime: (minutes: number) => void;
+  removeLeadTime: (minutes: number) => void;
+}
+
+/**
+ * Lesson reminder settings, e.g. "remind me 1 hour and 15 minutes before"
+ */
+export const useReminderStore = create<ReminderState>()(
+  persist(
+    (set, get) => ({
+      enabled: false,
+      leadTimes: [...REMINDERS.DEFAULT_LEAD_MINUTES],
+
+      setEnabled: (enabled: boolean) => {
+        set({ enabled });
+      },
+
+      /**
+       * Add a lead time
+       * @throws Error if the lead time is not a positive number of minutes or is already set
+       */
+      addLeadTime: (minutes: number) => {
+        if (!Number.isInteger(minutes) || minutes <= 0) {
+          throw new Error('Pick how many minutes before the lesson to remind you');
+        }
+        if (get().leadTimes.includes(minutes)) {
+          throw new Error('You already have a reminder at that time');
+        }
+        set((state) => ({ leadTimes: [...state.leadTimes, minutes].sort((a, b) => b - a) }));
+      },
+
+      removeLeadTime: (minutes: number) => {
+        set((state) => ({ leadTimes: state.leadTimes.filter((leadTime) => leadTime !== minutes) }));
+      },
+    }),
+    {
+      name: 'reminder-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { LessonReportContent, LessonReportDraft } from '../types';
+import { useAuthStore } from './authStore';
+
+interface ReportDraftState {
+  /** Unsubmitted reports by lesson id */
+  drafts: Record<string, LessonReportDraft>;
+  saveDraft: (lessonId: string, content: LessonReportContent) => void;
+  discardDraft: (lessonId: string) => void;
+}
+
+/**
+ * Report drafts autosaved while the tutor writes, so nothing is lost on reload
+ */
+export const useReportDraftStore = create<ReportDraftState>()(
+  persist(
+    (set) => ({
+      drafts: {},
+
+      saveDraft: (lessonId: string, content: LessonReportContent) => {
+        set((state) => ({
+          drafts: { ...state.drafts, [lessonId]: { ...content, savedAt: new Date().toISOString() } },
+        }));
+      },
+
+      discardDraft: (lessonId: string) => {
+        set((state) => {
+          const { [lessonId]: _discarded, ...drafts } = state.drafts;
+          return { drafts };
+        });
+      },
+    }),
+    {
+      name: 'report-drafts-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+// Drafts can hold notes about students, so don't leave them behind on a shared device
+useAuthStore.subscribe((state, previous) => {
+  if (previous.isAuthenticated && !state.isAuthenticated) {
+    useReportDraftStore.setState({ drafts: {} });
+    useReportDraftStore.persist.clearStorage();
+  }
+});
@@ -13,14 +13,41 @@ export type LessonStatus = 'Completed' | 'Confirmed' | 'Available';
  */
 export interface Lesson {
   id: string;
-  date: string;
+  date: string; // Start time (ISO 8601)
+  durationMinutes: number; // Length of the lesson; the end time is date + durationMinutes
+  timezone?: string; // IANA timezone the lesson is held in, e.g. "Asia/Singapore"
   type: LessonType; // Use LessonType instead of literal union
   subject: string;
   students: string[];
   tutor: string | null;
   status: LessonStatus; // Use LessonStatus instead of literal union
+  attendance?: LessonAttendance; // Recorded once the lesson has taken place
+  report?: LessonReport; // Progress report submitted by the tutor after the lesson
 }
 
+/**
+ * Whether a student attended a lesson
+ */
+export type AttendanceStatus = 'present' | 'absent' | 'late';
+
+/**
+ * Attendance per student, keyed by the student's name as listed in Lesson.students
+ */
+export type LessonAttendance = Record<string, AttendanceStatus>;
+
+/**
+ * User role - Determines which permissions a user has
+ */
+export type UserRole = 'tutor' | 'coordinator' | 'admin';
+
+/**
+ * Permission - An action or view that can be granted to a role
+ * - takeClass: claim available lessons
+ * - viewOtherTutors: see lessons assigned to other tutors
+ * - editLessons: change lesson details and status
+ */
+export type Permission = 'takeClass' | 'viewOtherTutors' | 'editLessons';
+
 /**
  * User interface - Represents a tutor/user
  */
@@ -28,6 +55,22 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  role: UserRole;
+}
+
+/**
+ * Auth tokens issued by the backend on login and refresh
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Login response - Tokens plus the authenticated user
+ */
+export interface LoginResponse extends AuthTokens {
+  user: User;
 }
 
 /**
@@ -36,3 +79,300 @@ export interface User {
  */
 export type LessonFilterType = LessonType | 'Today';
 
+
+/**
+ * Dashboard view mode - Controls how lessons are laid out on the dashboard
+ * - 'cards': stacked lesson sections (Today, Available, Upcoming, Historic)
+ * - 'month': monthly calendar grid
+ * - 'week': weekly timetable with hourly time slots
+ */
+export type DashboardView = 'cards' | 'month' | 'week';
+
+/**
+ * Recurrence of an imported busy event - The supported subset of an iCalendar RRULE
+ */
+export interface BusyRecurrence {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string; // ISO 8601
+  byDay?: number[]; // Days of the week for WEEKLY rules (0 = Sunday)
+}
+
+/**
+ * Busy event imported from a tutor's personal calendar
+ * Kept separately from lessons; recurring events are expanded into BusyBlocks when needed.
+ */
+export interface BusyEvent {
+  uid: string;
+  summary: string;
+  start: string; // ISO 8601
+  durationMinutes: number;
+  recurrence?: BusyRecurrence;
+  exceptions: string[]; // Start times (ISO 8601) of skipped occurrences
+}
+
+/**
+ * A single occurrence of a busy event
+ */
+export interface BusyBlock {
+  id: string;
+  summary: string;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+}
+
+/**
+ * A weekly time slot the tutor is usually available in
+ */
+export interface AvailabilitySlot {
+  id: string;
+  day: number; // Day of the week (0 = Sunday)
+  start: string; // Local time, HH:mm
+  end: string; // Local time, HH:mm
+}
+
+/**
+ * Subject family used to group lessons in the filter facets
+ */
+export type SubjectFamily = 'Minecraft' | 'Roblox' | 'Python' | 'Web';
+
+/**
+ * Student count bucket used in the filter facets
+ */
+export type StudentCountRange = 'none' | 'one' | 'small' | 'large';
+
+/**
+ * Search text and facet selections applied on top of the month and date range filters
+ * Empty facet lists do not filter; values within one facet are combined with OR.
+ */
+export interface LessonFacets {
+  search: string;
+  subjects: SubjectFamily[];
+  statuses: LessonStatus[];
+  studentCounts: StudentCountRange[];
+}
+
+/**
+ * Query parameters for loading lessons from the API
+ * from/to bound the lesson start time (inclusive). The cursor comes from the
+ * previous page; omit it to load the first page.
+ */
+export interface LessonQuery {
+  type?: LessonType;
+  from?: string; // ISO 8601
+  to?: string; // ISO 8601
+  student?: string; // Only lessons with this student
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * A page of lessons - Historic lessons are returned newest first, others oldest first
+ */
+export interface LessonPage {
+  lessons: Lesson[];
+  nextCursor: string | null; // null when there are no more pages
+  total: number; // Lessons matching the query across all pages
+}
+
+/**
+ * Loading state of one dashboard section
+ */
+export interface LessonSectionState {
+  loading: boolean;
+  error: string | null;
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * A "take class" request made while offline, waiting to be sent
+ */
+export interface QueuedTakeClass {
+  id: string;
+  lessonId: string;
+  queuedAt: string; // ISO 8601
+}
+
+/**
+ * A queued "take class" request that failed when it was replayed
+ */
+export interface ReplayFailure {
+  lessonId: string;
+  subject: string;
+  message: string;
+}
+
+/**
+ * Lesson event streamed by the live updates channel
+ */
+export type LiveLessonEvent =
+  | { type: 'lesson.created' | 'lesson.changed'; lesson: Lesson }
+  | { type: 'lesson.taken'; lessonId: string; tutor: string };
+
+/**
+ * State of the live updates connection
+ */
+export type LiveUpdatesStatus = 'disabled' | 'connecting' | 'open' | 'closed';
+
+/**
+ * A browser notification due some minutes before an upcoming lesson
+ */
+export interface LessonReminder {
+  /** Unique per lesson, start time and lead time, so a rescheduled lesson gets new reminders */
+  key: string;
+  lesson: Lesson;
+  leadMinutes: number;
+  /** When the reminder is due (ms since epoch) */
+  fireAt: number;
+}
+
+/**
+ * Report content written by the tutor, in lightweight markdown
+ */
+export interface LessonReportContent {
+  /** Notes about the lesson as a whole */
+  notes: string;
+  /** Progress report per student name */
+  students: Record<string, string>;
+}
+
+/**
+ * Post-lesson report as saved by the API
+ */
+export interface LessonReport extends LessonReportContent {
+  submittedAt: string; // ISO 8601
+}
+
+/**
+ * Report not yet submitted, autosaved in the browser
+ */
+export interface LessonReportDraft extends LessonReportContent {
+  savedAt: string; // ISO 8601
+}
+
+/**
+ * A subject a student has taken, with the levels covered
+ */
+export interface StudentSubject {
+  /** Subject name without the level, e.g. "Minecraft Game Design" */
+  name: string;
+  /** Levels covered, e.g. ["Level 1", "Level 2"]; empty for subjects without levels */
+  levels: string[];
+  lessonCount: number;
+}
+
+/**
+ * Student summary derived from their lessons
+ */
+export interface StudentProfile {
+  name: string;
+  /** Every lesson with the student, newest first */
+  lessons: Lesson[];
+  completedCount: number;
+  subjects: StudentSubject[];
+  tutors: string[];
+  /** Share of recorded lessons the student attended (present or late), or null if none are recorded */
+  attendanceRate: number | null;
+  attendanceRecorded: number;
+  nextLesson: Lesson | null;
+}
+
+/**
+ * Workload and take rate for one calendar month
+ */
+export interface MonthlyLessonStats {
+  /** Month key in 'yyyy-MM' format */
+  month: string;
+  /** Lessons taken by a tutor (upcoming or historic) */
+  lessons: number;
+  hours: number;
+  /** Every lesson offered in the month, taken or not */
+  offered: number;
+  /** Share of offered lessons that were taken, or null if none were offered */
+  takeRate: number | null;
+}
+
+/**
+ * Taken lessons and hours for one subject family
+ */
+export interface SubjectFamilyStats {
+  /** null for subjects outside the known families */
+  family: SubjectFamily | null;
+  lessons: number;
+  hours: number;
+}
+
+/**
+ * Workload summary shown on the analytics page
+ */
+export interface LessonAnalytics {
+  months: MonthlyLessonStats[];
+  subjectFamilies: SubjectFamilyStats[];
+  totalLessons: number;
+  totalHours: number;
+  distinctStudents: number;
+  /** Share of offered lessons that were taken across the whole range, or null if none were offered */
+  takeRate: number | null;
+}
+
+/**
+ * Hourly rate for subjects containing some text, e.g. "Roblox" or "Level 2"
+ */
+export interface SubjectRate {
+  /** Matched case-insensitively against the lesson subject */
+  match: string;
+  hourlyRate: number;
+}
+
+/**
+ * Extra hourly pay for lessons with at least a number of students
+ */
+export interface StudentCountRate {
+  minStudents: number;
+  hourlyBonus: number;
+}
+
+/**
+ * A tutor's pay rates
+ * The first matching subject rate applies, else the default rate; the student
+ * count bonus with the highest minimum the lesson reaches is added on top.
+ */
+export interface PayRates {
+  /** ISO 4217 currency code, e.g. "SGD" */
+  currency: string;
+  defaultHourlyRate: number;
+  subjectRates: SubjectRate[];
+  studentCountRates: StudentCountRate[];
+}
+
+/**
+ * Pay for a single lesson on a statement
+ */
+export interface EarningsLine {
+  lesson: Lesson;
+  hours: number;
+  hourlyRate: number;
+  hourlyBonus: number;
+  amount: number;
+  /** True for completed lessons; confirmed lessons are still projected */
+  realised: boolean;
+}
+
+/**
+ * A tutor's pay statement for one month
+ */
+export interface EarningsStatement {
+  /** Month key in 'yyyy-MM' format */
+  month: string;
+  currency: string;
+  /** Lines in lesson order, oldest first */
+  lines: EarningsLine[];
+  /** Pay for completed lessons */
+  realisedTotal: number;
+  /** Pay for completed and confirmed lessons */
+  projectedTotal: number;
+  realisedHours: number;
+  projectedHours: number;
+}
@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+import { EarningsStatement } from '../types';
+import { downloadFile, formatLessonTime, getLessonWallClock } from './index';
+
+/**
+ * CSV (RFC 4180) helpers for exporting pay statements
+ */
+
+/**
+ * Quote a field when needed
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets don't evaluate it.
+ */
+const escapeField = (value: string | number): string => {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV with a row per statement line followed by the totals
+ * @param statement - The pay statement
+ * @returns CSV text with CRLF line endings
+ */
+export const buildStatementCsv = (statement: EarningsStatement): string => {
+  const rows: (string | number)[][] = [
+    ['Date', 'Time', 'Lesson ID', 'Subject', 'Students', 'Hours', 'Hourly rate', 'Student bonus', 'Amount', 'Status', 'Currency'],
+    ...statement.lines.map((line) => [
+      format(getLessonWallClock(line.lesson), 'yyyy-MM-dd'),
+      formatLessonTime(line.lesson),
+      line.lesson.id,
+      line.lesson.subject,
+      line.lesson.students.length,
+      line.hours.toFixed(2),
+      line.hourlyRate.toFixed(2),
+      line.hourlyBonus.toFixed(2),
+      line.amount.toFixed(2),
+      line.realised ? 'Realised' : 'Projected',
+      statement.currency,
+    ]),
+    [],
+    ['Realised total', '', '', '', '', statement.realisedHours.toFixed(2), '', '', statement.realisedTotal.toFixed(2), '', statement.currency],
+    ['Projected total', '', '', '', '', statement.projectedHours.toFixed(2), '', '', statement.projectedTotal.toFixed(2), '', statement.currency],
+  ];
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Download a pay statement as a .csv file
+ * @param statement - The pay statement
+ * @param fileName - Name the file is saved under
+ */
+export const downloadStatementCsv = (statement: EarningsStatement, fileName: string): void => {
+  // The byte order mark makes Excel read the file as UTF-8
+  downloadFile(`\uFEFF${buildStatementCsv(statement)}`, fileName, 'text/csv;charset=utf-8');
+};
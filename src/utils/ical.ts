@@ -0,0 +1,489 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  differenceInMinutes,
+  startOfWeek,
+} from 'date-fns';
+import { BusyBlock, BusyEvent, BusyRecurrence, Lesson } from '../types';
+import { BUSY_IMPORT, ICAL } from '../constants';
+import { downloadFile, getLessonEnd } from './index';
+
+/**
+ * iCalendar (RFC 5545) helpers
+ * Lessons are exported as VEVENTs in UTC so no VTIMEZONE definitions are needed.
+ * Personal calendars are imported as busy events, with a subset of RRULE support.
+ */
+
+/**
+ * Format a date as an iCalendar UTC date-time (e.g., "20250115T063000Z")
+ */
+const formatICalDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line longer than the allowed octets (RFC 5545 3.1)
+ * Continuation lines start with a single space. Multi-byte characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? ICAL.MAX_LINE_OCTETS : ICAL.MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Get the stable iCalendar UID of a lesson
+ * The UID only depends on the lesson ID, so importing a newer export updates
+ * the existing event instead of adding a duplicate.
+ * @param lesson - The lesson
+ * @returns UID like "L001@tutor-portal.champcodeacademy"
+ */
+export const getLessonUid = (lesson: Lesson): string => `${lesson.id}@${ICAL.UID_DOMAIN}`;
+
+/**
+ * Build the VEVENT lines for a lesson
+ */
+const buildEventLines = (lesson: Lesson, stamp: string): string[] => {
+  const students = lesson.students.length > 0 ? lesson.students.join(', ') : 'No students';
+  const description = [`Students: ${students}`, `Tutor: ${lesson.tutor || 'Unassigned'}`, `Lesson ID: ${lesson.id}`];
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getLessonUid(lesson)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatICalDate(new Date(lesson.date))}`,
+    `DTEND:${formatICalDate(getLessonEnd(lesson))}`,
+    `SUMMARY:${escapeText(lesson.subject)}`,
+    `DESCRIPTION:${escapeText(description.join('\n'))}`,
+    `STATUS:${lesson.status === 'Confirmed' ? 'CONFIRMED' : 'TENTATIVE'}`,
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Build an iCalendar file for a list of lessons
+ * @param lessons - Lessons to export, one event each
+ * @param now - Time the export is created, used as DTSTAMP
+ * @returns Calendar text with CRLF line endings
+ */
+export const buildLessonsCalendar = (lessons: Lesson[], now: Date = new Date()): string => {
+  const stamp = formatICalDate(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL.PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(ICAL.CALENDAR_NAME)}`,
+    ...lessons.flatMap((lesson) => buildEventLines(lesson, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Download lessons as an .ics file
+ * @param lessons - Lessons to export
+ * @param fileName - Name of the file, including the .ics extension
+ */
+export const downloadLessonsCalendar = (lessons: Lesson[], fileName: string): void => {
+  downloadFile(buildLessonsCalendar(lessons), fileName, 'text/calendar;charset=utf-8');
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Split a calendar into unfolded content lines (RFC 5545 3.1)
+ */
+const parseContentLines = (text: string): ContentLine[] => {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      // The value starts at the first colon outside a quoted parameter value
+      let inQuotes = false;
+      let colon = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') {
+          inQuotes = !inQuotes;
+        } else if (line[i] === ':' && !inQuotes) {
+          colon = i;
+          break;
+        }
+      }
+      const head = colon === -1 ? line : line.slice(0, colon);
+      const [name, ...paramParts] = head.split(';');
+      const params: Record<string, string> = {};
+      paramParts.forEach((part) => {
+        const [key, ...rest] = part.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+      });
+      return { name: name.toUpperCase(), params, value: colon === -1 ? '' : line.slice(colon + 1) };
+    });
+};
+
+/**
+ * Undo TEXT escaping (RFC 5545 3.3.11)
+ */
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+};
+
+/**
+ * Get the offset of a timezone from UTC at a moment, in milliseconds
+ */
+const getTimeZoneOffset = (timeZone: string, utcTime: number): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcTime));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - utcTime;
+};
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value
+ * UTC values end in "Z". Values with an IANA TZID are converted from that timezone;
+ * floating values and unknown TZIDs are read as local time.
+ * @returns The date and whether it is an all-day DATE value, or null if it cannot be read
+ */
+const parseICalDate = (value: string, params: Record<string, string>): { date: Date; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const fields = [Number(year), Number(month) - 1, Number(day), Number(hour || 0), Number(minute || 0), Number(second || 0)] as const;
+
+  if (hour === undefined) {
+    return { date: new Date(fields[0], fields[1], fields[2]), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+  if (params.TZID) {
+    try {
+      const wallClock = Date.UTC(...fields);
+      // Two passes settle the offset when the first guess lands across a DST change
+      let time = wallClock - getTimeZoneOffset(params.TZID, wallClock);
+      time = wallClock - getTimeZoneOffset(params.TZID, time);
+      return { date: new Date(time), allDay: false };
+    } catch {
+      // Not an IANA timezone (e.g. a Windows zone name); fall back to local time
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+};
+
+/**
+ * Parse an iCalendar DURATION value (e.g., "PT1H30M") into minutes
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks || 0) * 7 * 24 * 60 +
+    Number(days || 0) * 24 * 60 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0) +
+    Math.floor(Number(seconds || 0) / 60);
+  return sign === '-' ? -total : total;
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse an RRULE value
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL and BYDAY for
+ * weekly rules. Other frequencies return null, so the event is kept as a single occurrence.
+ */
+const parseRecurrence = (value: string): BusyRecurrence | null => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach((part) => {
+    const [key, partValue = ''] = part.split('=');
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    return null;
+  }
+  const recurrence: BusyRecurrence = { freq, interval: Math.max(1, Number(parts.INTERVAL) || 1) };
+  if (parts.COUNT) {
+    recurrence.count = Number(parts.COUNT);
+  }
+  if (parts.UNTIL) {
+    recurrence.until = parseICalDate(parts.UNTIL, {})?.date.toISOString();
+  }
+  if (freq === 'WEEKLY' && parts.BYDAY) {
+    const byDay = parts.BYDAY.split(',')
+      .map((code) => WEEKDAY_CODES.indexOf(code.slice(-2)))
+      .filter((day) => day !== -1);
+    if (byDay.length > 0) {
+      recurrence.byDay = byDay.sort();
+    }
+  }
+  return recurrence;
+};
+
+/**
+ * Parse the busy events of an iCalendar file
+ * Cancelled events and events marked as free (TRANSP:TRANSPARENT) are skipped.
+ * Modified occurrences (RECURRENCE-ID) replace the occurrence of their recurring event.
+ * @param text - Contents of an .ics file
+ * @returns The busy events found in the file
+ * @throws Error if the file is not an iCalendar file
+ */
+export const parseBusyEvents = (text: string): BusyEvent[] => {
+  const lines = parseContentLines(text);
+  if (!lines.some((line) => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('The file is not an iCalendar (.ics) file');
+  }
+
+  const events: BusyEvent[] = [];
+  const overrides: { uid: string; recurrenceId: string }[] = [];
+  let current: ContentLine[] | null = null;
+  // Nested components such as VALARM have their own properties, which are ignored
+  let nestedDepth = 0;
+
+  lines.forEach((line) => {
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        nestedDepth++;
+      }
+      return;
+    }
+    if (line.name === 'END' && current) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+        return;
+      }
+      const props: ContentLine[] = current;
+      current = null;
+
+      const find = (name: string) => props.find((prop) => prop.name === name);
+      const dtStart = find('DTSTART');
+      const start = dtStart ? parseICalDate(dtStart.value, dtStart.params) : null;
+      if (!start || find('STATUS')?.value.toUpperCase() === 'CANCELLED' || find('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+        return;
+      }
+
+      // The end comes from DTEND or DURATION; all-day events default to one day
+      const dtEnd = find('DTEND');
+      const end = dtEnd ? parseICalDate(dtEnd.value, dtEnd.params) : null;
+      const duration = find('DURATION');
+      let durationMinutes = start.allDay ? 24 * 60 : 0;
+      if (end) {
+        durationMinutes = differenceInMinutes(end.date, start.date);
+      } else if (duration) {
+        durationMinutes = parseDuration(duration.value) ?? durationMinutes;
+      }
+
+      const uid = find('UID')?.value || `event-${events.length + 1}`;
+      const recurrenceIdLine = find('RECURRENCE-ID');
+      const recurrenceId = recurrenceIdLine ? parseICalDate(recurrenceIdLine.value, recurrenceIdLine.params) : null;
+      const rrule = find('RRULE');
+
+      if (recurrenceId) {
+        overrides.push({ uid, recurrenceId: recurrenceId.date.toISOString() });
+      }
+      events.push({
+        uid: recurrenceId ? `${uid}#${recurrenceId.date.toISOString()}` : uid,
+        summary: unescapeText(find('SUMMARY')?.value || 'Busy'),
+        start: start.date.toISOString(),
+        durationMinutes: Math.max(0, durationMinutes),
+        recurrence: rrule && !recurrenceId ? parseRecurrence(rrule.value) ?? undefined : undefined,
+        exceptions: props
+          .filter((prop) => prop.name === 'EXDATE')
+          .flatMap((prop) => prop.value.split(',').map((value) => parseICalDate(value, prop.params)))
+          .filter((value): value is { date: Date; allDay: boolean } => value !== null)
+          .map((value) => value.date.toISOString()),
+      });
+      return;
+    }
+    if (current && nestedDepth === 0) {
+      current.push(line);
+    }
+  });
+
+  // A modified occurrence replaces the original one generated by the recurring event
+  overrides.forEach(({ uid, recurrenceId }) => {
+    const master = events.find((event) => event.uid === uid && event.recurrence);
+    master?.exceptions.push(recurrenceId);
+  });
+
+  return events;
+};
+
+/**
+ * Number of whole recurrence periods from the first occurrence to a date
+ * Used to skip straight to the periods near a range instead of stepping through
+ * every period since the event started.
+ */
+const getPeriodsBetween = (recurrence: BusyRecurrence, first: Date, date: Date): number => {
+  switch (recurrence.freq) {
+    case 'DAILY':
+      return differenceInCalendarDays(date, first);
+    case 'WEEKLY':
+      return differenceInCalendarWeeks(date, first, { weekStartsOn: 1 });
+    case 'MONTHLY':
+      return differenceInCalendarMonths(date, first);
+    case 'YEARLY':
+      return differenceInCalendarYears(date, first);
+  }
+};
+
+/**
+ * List the start times of a busy event's occurrences that may overlap a date range
+ * The MAX_OCCURRENCES cap counts periods from the start of the range, so events
+ * that started long ago still reach it.
+ */
+const getOccurrenceStarts = (event: BusyEvent, from: Date, until: Date): Date[] => {
+  const first = new Date(event.start);
+  const { recurrence } = event;
+  if (!recurrence) {
+    return [first];
+  }
+
+  // Occurrences starting up to one event length before the range can still overlap it
+  const earliest = addMinutes(from, -event.durationMinutes);
+  const lastAllowed = recurrence.until && new Date(recurrence.until) < until ? new Date(recurrence.until) : until;
+  const starts: Date[] = [];
+  const maxCount = recurrence.count ?? Infinity;
+  let generated = 0;
+  const add = (date: Date) => {
+    if (generated < maxCount && date >= first && date <= lastAllowed) {
+      generated++;
+      if (date >= earliest) {
+        starts.push(date);
+      }
+    }
+  };
+
+  // Without COUNT, earlier occurrences don't matter, so jump to the period before the range.
+  // With COUNT they have to be counted, so the series is walked from the start.
+  const skipped = recurrence.count === undefined ? Math.max(0, getPeriodsBetween(recurrence, first, earliest) - 1) : 0;
+  let step = Math.floor(skipped / recurrence.interval);
+  let capStart: number | null = null;
+
+  for (; generated < maxCount && (capStart === null || step - capStart < BUSY_IMPORT.MAX_OCCURRENCES); step++) {
+    const n = step * recurrence.interval;
+    let periodStart: Date;
+    switch (recurrence.freq) {
+      case 'DAILY':
+        periodStart = addDays(first, n);
+        add(periodStart);
+        break;
+      case 'WEEKLY':
+        periodStart = addWeeks(first, n);
+        if (recurrence.byDay) {
+          // Weeks start on Monday, the RFC 5545 default for WKST
+          const weekStart = startOfWeek(periodStart, { weekStartsOn: 1 });
+          [...recurrence.byDay]
+            .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+            .forEach((day) => {
+              // Each weekday occurrence keeps the wall-clock time of the first one
+              const date = addDays(weekStart, (day + 6) % 7);
+              add(new Date(date.getFullYear(), date.getMonth(), date.getDate(), first.getHours(), first.getMinutes(), first.getSeconds()));
+            });
+        } else {
+          add(periodStart);
+        }
+        break;
+      case 'MONTHLY':
+        periodStart = addMonths(first, n);
+        // Months without the day (e.g. the 31st) have no occurrence
+        if (periodStart.getDate() === first.getDate()) {
+          add(periodStart);
+        }
+        break;
+      case 'YEARLY':
+        periodStart = addYears(first, n);
+        if (periodStart.getDate() === first.getDate()) {
+          add(periodStart);
+        }
+        break;
+    }
+    if (periodStart > lastAllowed) {
+      break;
+    }
+    if (capStart === null && periodStart >= earliest) {
+      capStart = step;
+    }
+  }
+  return starts;
+};
+
+/**
+ * Expand busy events into the busy blocks that overlap a date range
+ * @param events - Imported busy events
+ * @param rangeStart - Start of the range
+ * @param rangeEnd - End of the range
+ * @returns Busy blocks overlapping the range, sorted by start time
+ */
+export const expandBusyEvents = (events: BusyEvent[], rangeStart: Date, rangeEnd: Date): BusyBlock[] => {
+  return events
+    .flatMap((event) => {
+      const exceptions = new Set(event.exceptions.map((value) => new Date(value).getTime()));
+      return getOccurrenceStarts(event, rangeStart, rangeEnd)
+        .filter((start) => !exceptions.has(start.getTime()))
+        .map((start) => ({
+          id: `${event.uid}@${start.toISOString()}`,
+          summary: event.summary,
+          start: start.toISOString(),
+          end: addMinutes(start, event.durationMinutes).toISOString(),
+        }));
+    })
+    .filter((block) => new Date(block.start) < rangeEnd && new Date(block.end) > rangeStart)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+};
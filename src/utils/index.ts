@@ -1,5 +1,45 @@
-import { format, startOfDay, endOfDay, startOfMonth, endOfMonth } from 'date-fns';
-import { Lesson } from '../types';
+import {
+  addMinutes,
+  differenceInMinutes,
+  eachMonthOfInterval,
+  format,
+  startOfDay,
+  endOfDay,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  addHours,
+  subHours,
+} from 'date-fns';
+import {
+  AttendanceStatus,
+  AvailabilitySlot,
+  BusyBlock,
+  EarningsLine,
+  EarningsStatement,
+  Lesson,
+  LessonAnalytics,
+  LessonFacets,
+  MonthlyLessonStats,
+  PayRates,
+  Permission,
+  StudentProfile,
+  StudentSubject,
+  SubjectFamily,
+  SubjectFamilyStats,
+  User,
+} from '../types';
+import {
+  CALENDAR,
+  DATE_FILTER,
+  RELEASE_POLICY,
+  ROLE_PERMISSIONS,
+  SCHEDULING_POLICY,
+  STUDENT_COUNT_RANGES,
+  SUBJECT_FAMILIES,
+  TIMEZONE_ABBREVIATIONS,
+} from '../constants';
 
 /**
  * Format a date to a readable string (e.g., "January 15, 2025")
@@ -12,13 +52,148 @@ export const formatDate = (date: Date | string): string => {
 };
 
 /**
- * Format a date to time string (e.g., "14:30")
+ * Options for formatTime
+ */
+export interface FormatTimeOptions {
+  /** Render a range ending this many minutes after the start */
+  durationMinutes?: number;
+  /** IANA timezone to render the time in, e.g. "Asia/Singapore" */
+  timeZone?: string;
+}
+
+/**
+ * Get the short name of a timezone (e.g., "SGT" for "Asia/Singapore")
+ * Falls back to the browser's short name, which may be an offset like "GMT+8".
+ * @param timeZone - IANA timezone name
+ * @param date - Date the name is needed for (matters for daylight saving)
+ * @returns Short timezone name, or the IANA name if it cannot be resolved
+ */
+export const getTimeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  if (TIMEZONE_ABBREVIATIONS[timeZone]) {
+    return TIMEZONE_ABBREVIATIONS[timeZone];
+  }
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find((item) => item.type === 'timeZoneName');
+    return part?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/**
+ * Format a time of day as HH:mm, in the given timezone when one is set
+ * Unknown timezones fall back to the browser's local time.
+ */
+const formatClockTime = (date: Date, timeZone?: string): string => {
+  if (timeZone) {
+    try {
+      return new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).format(date);
+    } catch {
+      // Invalid timezone name
+    }
+  }
+  return format(date, 'HH:mm');
+};
+
+/**
+ * Format a date to time string (e.g., "14:30", or "14:00–15:00 (SGT)" with options)
  * @param date - The date to format
+ * @param options - Optional duration to render a range and timezone to render in
  * @returns Formatted time string in HH:mm format
  */
-export const formatTime = (date: Date | string): string => {
+export const formatTime = (date: Date | string, options: FormatTimeOptions = {}): string => {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  return format(dateObj, 'HH:mm');
+  const { durationMinutes, timeZone } = options;
+  let time = formatClockTime(dateObj, timeZone);
+  if (durationMinutes) {
+    time += `–${formatClockTime(addMinutes(dateObj, durationMinutes), timeZone)}`;
+  }
+  if (timeZone) {
+    time += ` (${getTimeZoneAbbreviation(timeZone, dateObj)})`;
+  }
+  return time;
+};
+
+/**
+ * Get a date whose local fields show the wall-clock time in a timezone
+ * Used to place and format lessons by the date and time they are held at,
+ * wherever the browser is. Unknown timezones fall back to the date itself.
+ * @param date - The moment to convert
+ * @param timeZone - IANA timezone name; omit to keep browser-local time
+ * @returns Date for display and day grouping only; its timestamp is shifted
+ */
+export const toTimeZoneWallClock = (date: Date | string, timeZone?: string): Date => {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  if (!timeZone) {
+    return dateObj;
+  }
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(dateObj);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+    return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  } catch {
+    // Invalid timezone name
+    return dateObj;
+  }
+};
+
+/**
+ * Get a lesson's start as wall-clock time in the lesson's timezone
+ * @param lesson - The lesson
+ * @returns Date whose local fields are the lesson's start in its timezone
+ */
+export const getLessonWallClock = (lesson: Lesson): Date => toTimeZoneWallClock(lesson.date, lesson.timezone);
+
+/**
+ * Format a lesson's date in the lesson's timezone, matching formatLessonTime (e.g., "January 15, 2025")
+ * @param lesson - The lesson to format
+ * @returns Formatted date string
+ */
+export const formatLessonDate = (lesson: Lesson): string => {
+  return formatDate(getLessonWallClock(lesson));
+};
+
+/**
+ * Format a lesson's start and end time in the lesson's timezone (e.g., "14:00–15:00 (SGT)")
+ * @param lesson - The lesson to format
+ * @returns Formatted time range
+ */
+export const formatLessonTime = (lesson: Lesson): string => {
+  return formatTime(lesson.date, { durationMinutes: lesson.durationMinutes, timeZone: lesson.timezone });
+};
+
+/**
+ * Format a number of minutes as a reminder lead time (e.g., "15 minutes", "1 hour", "1 hour 30 minutes")
+ * @param minutes - Number of minutes
+ * @returns Human-readable duration
+ */
+export const formatLeadTime = (minutes: number): string => {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) {
+    return plural(minutes / (24 * 60), 'day');
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return plural(rest, 'minute');
+  }
+  return rest === 0 ? plural(hours, 'hour') : `${plural(hours, 'hour')} ${plural(rest, 'minute')}`;
 };
 
 /**
@@ -53,8 +228,34 @@ export const getMonthRange = (date: Date) => {
   return { start: monthStart, end: monthEnd };
 };
 
+/**
+ * Get the visible date range of a month calendar grid
+ * The grid always spans full weeks, so it includes trailing days of the
+ * previous month and leading days of the next one.
+ * @param date - Any date within the month to display
+ * @returns Object with start of the first week and end of the last week
+ */
+export const getCalendarGridRange = (date: Date) => {
+  const start = startOfWeek(startOfMonth(date), { weekStartsOn: CALENDAR.WEEK_STARTS_ON });
+  const end = endOfWeek(endOfMonth(date), { weekStartsOn: CALENDAR.WEEK_STARTS_ON });
+  return { start, end };
+};
+
+/**
+ * Get the week range for a given date
+ * @param date - The date to get week range for
+ * @returns Object with start and end of the week
+ */
+export const getWeekRange = (date: Date) => {
+  const weekStart = startOfWeek(date, { weekStartsOn: CALENDAR.WEEK_STARTS_ON });
+  const weekEnd = endOfWeek(date, { weekStartsOn: CALENDAR.WEEK_STARTS_ON });
+  return { start: weekStart, end: weekEnd };
+};
+
 /**
  * Filter lessons by date range
+ * Lessons are matched by their wall-clock start in their own timezone, the date
+ * shown on cards and in the calendar views.
  * @param lessons - Array of lessons to filter
  * @param startDate - Start date of the range
  * @param endDate - End date of the range
@@ -66,11 +267,30 @@ export const filterLessonsByDateRange = (
   endDate: Date
 ): Lesson[] => {
   return lessons.filter((lesson) => {
-    const lessonDate = new Date(lesson.date);
+    const lessonDate = getLessonWallClock(lesson);
     return lessonDate >= startDate && lessonDate <= endDate;
   });
 };
 
+/**
+ * Largest gap between a lesson's wall-clock time and browser-local time, in hours
+ * (timezones run from UTC-12 to UTC+14)
+ */
+const MAX_TIMEZONE_GAP_HOURS = 26;
+
+/**
+ * Get the start times to request from the API for lessons held within a range
+ * The API filters by the moment lessons start, while the app places them by their
+ * wall-clock start, so the range is widened by the largest timezone gap. Narrow the
+ * results again with filterLessonsByDateRange.
+ * @param start - Start of the range (local dates, compared with lesson wall clocks)
+ * @param end - End of the range
+ * @returns The widened range
+ */
+export const getLessonFetchRange = (start: Date, end: Date) => {
+  return { start: subHours(start, MAX_TIMEZONE_GAP_HOURS), end: addHours(end, MAX_TIMEZONE_GAP_HOURS) };
+};
+
 /**
  * Filter lessons by a specific date (today)
  * @param lessons - Array of lessons to filter
@@ -81,3 +301,536 @@ export const filterTodayLessons = (lessons: Lesson[]): Lesson[] => {
   return filterLessonsByDateRange(lessons, start, end);
 };
 
+
+/**
+ * Check whether a user has a permission
+ * @param user - The user to check (null when logged out)
+ * @param permission - The permission required
+ * @returns True if the user's role grants the permission
+ */
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+  if (!user) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+};
+
+/**
+ * Filter out lessons the user is not allowed to see
+ * Lessons assigned to other tutors are only visible with the 'viewOtherTutors' permission.
+ * @param lessons - Array of lessons to filter
+ * @param user - The current user
+ * @returns Lessons that are open or assigned to the user, or all lessons if permitted
+ */
+export const filterVisibleLessons = (lessons: Lesson[], user: User | null): Lesson[] => {
+  if (hasPermission(user, 'viewOtherTutors')) {
+    return lessons;
+  }
+  return lessons.filter((lesson) => lesson.tutor === null || lesson.tutor === user?.name);
+};
+
+/**
+ * Check whether a lesson can be marked as done by a user
+ * The lesson must be confirmed and already started, and the user must either
+ * be its tutor or have the 'editLessons' permission.
+ * @param lesson - The lesson to check
+ * @param user - The current user
+ * @returns True if the "mark done" action applies
+ */
+export const canMarkLessonDone = (lesson: Lesson, user: User | null): boolean => {
+  if (lesson.status !== 'Confirmed' || new Date(lesson.date) > new Date()) {
+    return false;
+  }
+  return lesson.tutor === user?.name || hasPermission(user, 'editLessons');
+};
+
+/**
+ * Check whether a user can record attendance for a lesson
+ * The lesson must be taken, have students and be from today or earlier, and the
+ * user must either be its tutor or have the 'editLessons' permission.
+ * @param lesson - The lesson to check
+ * @param user - The current user
+ * @param now - Current time
+ * @returns True if the attendance panel applies
+ */
+export const canRecordAttendance = (lesson: Lesson, user: User | null, now: Date = new Date()): boolean => {
+  if (lesson.status === 'Available' || !lesson.tutor || lesson.students.length === 0) {
+    return false;
+  }
+  if (new Date(lesson.date) > endOfDay(now)) {
+    return false;
+  }
+  return lesson.tutor === user?.name || hasPermission(user, 'editLessons');
+};
+
+/**
+ * Count a lesson's recorded attendance
+ * @param lesson - The lesson to summarize
+ * @returns Number of students per attendance status, how many are recorded and the class size
+ */
+export const getAttendanceSummary = (lesson: Lesson): Record<AttendanceStatus, number> & { recorded: number; total: number } => {
+  const summary = { present: 0, late: 0, absent: 0, recorded: 0, total: lesson.students.length };
+  lesson.students.forEach((student) => {
+    const status = lesson.attendance?.[student];
+    if (status) {
+      summary[status]++;
+      summary.recorded++;
+    }
+  });
+  return summary;
+};
+
+/**
+ * Check whether a lesson has ended without attendance recorded for every student
+ * @param lesson - The lesson to check
+ * @param now - Current time
+ * @returns True if the tutor still needs to take attendance
+ */
+export const needsAttendance = (lesson: Lesson, now: Date = new Date()): boolean => {
+  if (lesson.status === 'Available' || !lesson.tutor || lesson.students.length === 0) {
+    return false;
+  }
+  return getLessonEnd(lesson) <= now && getAttendanceSummary(lesson).recorded < lesson.students.length;
+};
+
+/**
+ * Check whether a user can write the report for a lesson
+ * The lesson must be historic and taken, and the user must either be its tutor
+ * or have the 'editLessons' permission.
+ * @param lesson - The lesson to check
+ * @param user - The current user
+ * @returns True if the report editor applies
+ */
+export const canWriteReport = (lesson: Lesson, user: User | null): boolean => {
+  if (lesson.type !== 'Historic' || !lesson.tutor) {
+    return false;
+  }
+  return lesson.tutor === user?.name || hasPermission(user, 'editLessons');
+};
+
+/**
+ * Check whether a historic lesson is still waiting for its report
+ * @param lesson - The lesson to check
+ * @returns True if the lesson was taught but no report has been submitted
+ */
+export const isReportMissing = (lesson: Lesson): boolean => {
+  return lesson.type === 'Historic' && !!lesson.tutor && !lesson.report;
+};
+
+/**
+ * Get the last moment a lesson can still be released
+ * @param lesson - The lesson to check
+ * @returns The lesson start minus the release cutoff
+ */
+export const getReleaseDeadline = (lesson: Lesson): Date => {
+  return subHours(new Date(lesson.date), RELEASE_POLICY.CUTOFF_HOURS);
+};
+
+/**
+ * Check whether a lesson is past its release deadline
+ * @param lesson - The lesson to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the lesson starts within the release cutoff
+ */
+export const isPastReleaseDeadline = (lesson: Lesson, now: Date = new Date()): boolean => {
+  return now > getReleaseDeadline(lesson);
+};
+
+/**
+ * Check whether the "release class" action applies to a lesson for a user
+ * The lesson must be confirmed and upcoming, and the user must either be its
+ * tutor or have the 'editLessons' permission. The cutoff is checked separately
+ * so the UI can explain why a release is blocked.
+ * @param lesson - The lesson to check
+ * @param user - The current user
+ * @returns True if the lesson can be offered for release
+ */
+export const canReleaseLesson = (lesson: Lesson, user: User | null): boolean => {
+  if (lesson.type !== 'Upcoming' || lesson.status !== 'Confirmed') {
+    return false;
+  }
+  return lesson.tutor === user?.name || hasPermission(user, 'editLessons');
+};
+
+/**
+ * Build the error message shown when a release is attempted after the cutoff
+ */
+export const getReleaseCutoffMessage = (): string =>
+  `Classes can only be released up to ${RELEASE_POLICY.CUTOFF_HOURS} hours before they start`;
+
+/**
+ * Get the end time of a lesson
+ * Falls back to the default lesson length when the lesson has no duration.
+ * @param lesson - The lesson to get the end time for
+ * @returns The lesson start plus its duration
+ */
+export const getLessonEnd = (lesson: Lesson): Date => {
+  return addMinutes(new Date(lesson.date), lesson.durationMinutes || SCHEDULING_POLICY.DEFAULT_LESSON_MINUTES);
+};
+
+/**
+ * Check whether two lessons overlap in time
+ * Lessons that end exactly when the other starts do not overlap.
+ * @param a - First lesson
+ * @param b - Second lesson
+ * @returns True if the lessons share any time
+ */
+export const lessonsOverlap = (a: Lesson, b: Lesson): boolean => {
+  return new Date(a.date) < getLessonEnd(b) && new Date(b.date) < getLessonEnd(a);
+};
+
+/**
+ * Find a tutor's upcoming lessons that clash with a lesson
+ * @param lesson - The lesson to check (usually an available one)
+ * @param lessons - All known lessons
+ * @param tutorName - The tutor whose schedule is checked
+ * @returns The tutor's confirmed upcoming lessons that overlap the lesson
+ */
+export const findConflictingLessons = (lesson: Lesson, lessons: Lesson[], tutorName: string | undefined): Lesson[] => {
+  if (!tutorName) {
+    return [];
+  }
+  return lessons.filter(
+    (other) =>
+      other.id !== lesson.id &&
+      other.type === 'Upcoming' &&
+      other.tutor === tutorName &&
+      lessonsOverlap(lesson, other)
+  );
+};
+
+/**
+ * Find the imported busy blocks that overlap a lesson
+ * @param lesson - The lesson to check
+ * @param blocks - Busy blocks from the tutor's personal calendar
+ * @returns Busy blocks that share any time with the lesson
+ */
+export const findBusyConflicts = (lesson: Lesson, blocks: BusyBlock[]): BusyBlock[] => {
+  const start = new Date(lesson.date);
+  const end = getLessonEnd(lesson);
+  return blocks.filter((block) => new Date(block.start) < end && new Date(block.end) > start);
+};
+
+/**
+ * Convert an HH:mm time into minutes after midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a lesson falls entirely within the tutor's weekly availability
+ * Slots on the same day that touch or overlap are treated as one continuous slot,
+ * so a lesson may span e.g. 09:00–12:00 and 12:00–14:00. The lesson's day and
+ * time are its wall-clock start in its own timezone, as shown on the lesson.
+ * @param lesson - The lesson to check
+ * @param slots - The tutor's weekly availability, in lesson time
+ * @returns True if the lesson starts and ends within the available hours of its day
+ */
+export const fitsAvailability = (lesson: Lesson, slots: AvailabilitySlot[]): boolean => {
+  const start = getLessonWallClock(lesson);
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const endMinutes = startMinutes + differenceInMinutes(getLessonEnd(lesson), new Date(lesson.date));
+
+  const daySlots = slots
+    .filter((slot) => slot.day === start.getDay())
+    .map((slot) => ({ start: timeToMinutes(slot.start), end: timeToMinutes(slot.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  // Merge slots that touch or overlap into continuous spans
+  const spans: { start: number; end: number }[] = [];
+  daySlots.forEach((slot) => {
+    const last = spans[spans.length - 1];
+    if (last && slot.start <= last.end) {
+      last.end = Math.max(last.end, slot.end);
+    } else {
+      spans.push({ ...slot });
+    }
+  });
+  return spans.some((span) => span.start <= startMinutes && span.end >= endMinutes);
+};
+
+/**
+ * Get the subject family of a lesson subject (e.g., "Roblox Coding Basics" → "Roblox")
+ * @param subject - Lesson subject
+ * @returns The first matching family, or null if none matches
+ */
+export const getSubjectFamily = (subject: string): SubjectFamily | null => {
+  const words = subject.toLowerCase().split(/[^a-z0-9]+/);
+  const match = SUBJECT_FAMILIES.find(({ keywords }) => keywords.some((keyword) => words.includes(keyword)));
+  return match ? match.family : null;
+};
+
+/**
+ * Check whether a lesson matches a search query
+ * Every word of the query must appear in the subject, a student name or the tutor.
+ * @param lesson - The lesson to check
+ * @param query - Free-text search query
+ * @returns True if the lesson matches (an empty query matches every lesson)
+ */
+export const matchesSearch = (lesson: Lesson, query: string): boolean => {
+  const haystack = [lesson.subject, ...lesson.students, lesson.tutor || ''].join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+};
+
+/**
+ * Check whether any search text or facet is selected
+ */
+export const hasActiveFacets = (facets: LessonFacets): boolean => {
+  return (
+    facets.search.trim() !== '' ||
+    facets.subjects.length > 0 ||
+    facets.statuses.length > 0 ||
+    facets.studentCounts.length > 0
+  );
+};
+
+/**
+ * Filter lessons by search text and facets
+ * Facets combine with AND; the values selected within one facet combine with OR.
+ * @param lessons - Lessons to filter
+ * @param facets - Search text and facet selections
+ * @returns Lessons matching every active facet
+ */
+export const filterLessonsByFacets = (lessons: Lesson[], facets: LessonFacets): Lesson[] => {
+  const countRanges = STUDENT_COUNT_RANGES.filter(({ range }) => facets.studentCounts.includes(range));
+  return lessons.filter((lesson) => {
+    if (!matchesSearch(lesson, facets.search)) {
+      return false;
+    }
+    if (facets.subjects.length > 0) {
+      const family = getSubjectFamily(lesson.subject);
+      if (!family || !facets.subjects.includes(family)) {
+        return false;
+      }
+    }
+    if (facets.statuses.length > 0 && !facets.statuses.includes(lesson.status)) {
+      return false;
+    }
+    if (countRanges.length > 0) {
+      const count = lesson.students.length;
+      if (!countRanges.some(({ min, max }) => count >= min && count <= max)) {
+        return false;
+      }
+    }
+    return true;
+  });
+};
+
+/**
+ * Download text content as a file from the browser
+ * @param content - File content
+ * @param fileName - Name the file is saved under
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Split a subject into its name and level, e.g. "Roblox Coding - Level 2" → ["Roblox Coding", "Level 2"]
+ * @param subject - Lesson subject
+ * @returns The subject name and level, or null when the subject has no level
+ */
+export const parseSubjectLevel = (subject: string): { name: string; level: string | null } => {
+  const match = /^(.*?)\s+-\s+(Level\s+\d+)$/i.exec(subject.trim());
+  return match ? { name: match[1], level: match[2] } : { name: subject.trim(), level: null };
+};
+
+/**
+ * Build a student's profile from the lessons they appear in
+ * @param lessons - Lessons to search (e.g. every lesson in the store)
+ * @param student - Student name as listed in Lesson.students
+ * @param now - Current time, used to find the next lesson
+ * @returns The student's lessons, subjects and levels, attendance rate and next scheduled lesson
+ */
+export const getStudentProfile = (lessons: Lesson[], student: string, now: Date = new Date()): StudentProfile => {
+  const studentLessons = lessons
+    .filter((lesson) => lesson.students.includes(student))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const subjects = new Map<string, StudentSubject>();
+  studentLessons.forEach((lesson) => {
+    const { name, level } = parseSubjectLevel(lesson.subject);
+    const subject = subjects.get(name) || { name, levels: [], lessonCount: 0 };
+    subject.lessonCount++;
+    if (level && !subject.levels.includes(level)) {
+      subject.levels.push(level);
+    }
+    subjects.set(name, subject);
+  });
+
+  const recorded = studentLessons.filter((lesson) => lesson.attendance?.[student]);
+  const attended = recorded.filter((lesson) => lesson.attendance?.[student] !== 'absent');
+  const upcoming = studentLessons.filter((lesson) => lesson.status === 'Confirmed' && new Date(lesson.date) > now);
+
+  return {
+    name: student,
+    lessons: studentLessons,
+    completedCount: studentLessons.filter((lesson) => lesson.status === 'Completed').length,
+    subjects: Array.from(subjects.values())
+      .map((subject) => ({ ...subject, levels: [...subject.levels].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })) }))
+      .sort((a, b) => b.lessonCount - a.lessonCount || a.name.localeCompare(b.name)),
+    tutors: Array.from(new Set(studentLessons.map((lesson) => lesson.tutor).filter((tutor): tutor is string => !!tutor))),
+    attendanceRate: recorded.length > 0 ? attended.length / recorded.length : null,
+    attendanceRecorded: recorded.length,
+    nextLesson: upcoming.length > 0 ? upcoming[upcoming.length - 1] : null,
+  };
+};
+
+/**
+ * Summarise the workload and take rate of lessons between two dates
+ * Lessons count as taken once a tutor is assigned; hours are based on each lesson's duration.
+ * The take rates come from every offered lesson, including ones the user may not
+ * see once another tutor has taken them, so they are passed in separately.
+ * @param lessons - Lessons to count towards lessons, hours and students (e.g. the visible lessons in the store)
+ * @param start - Start of the range
+ * @param end - End of the range; every month from start to end gets an entry, even if empty
+ * @param offered - Every offered lesson, for the take rates; defaults to `lessons`
+ * @returns Lessons and hours per month, the split by subject family, distinct students and take rates
+ */
+export const getLessonAnalytics = (
+  lessons: Lesson[],
+  start: Date,
+  end: Date,
+  offered: Lesson[] = lessons
+): LessonAnalytics => {
+  const taken = filterLessonsByDateRange(lessons, start, end).filter((lesson) => lesson.tutor !== null);
+  const offeredInRange = filterLessonsByDateRange(offered, start, end);
+  const hours = (lesson: Lesson) => (lesson.durationMinutes || SCHEDULING_POLICY.DEFAULT_LESSON_MINUTES) / 60;
+  const monthKey = (lesson: Lesson) => format(getLessonWallClock(lesson), DATE_FILTER.MONTH_FORMAT);
+
+  const months = new Map<string, MonthlyLessonStats>(
+    eachMonthOfInterval({ start, end }).map((month) => {
+      const key = format(month, DATE_FILTER.MONTH_FORMAT);
+      return [key, { month: key, lessons: 0, hours: 0, offered: 0, takeRate: null }];
+    })
+  );
+  taken.forEach((lesson) => {
+    const stats = months.get(monthKey(lesson));
+    if (stats) {
+      stats.lessons++;
+      stats.hours += hours(lesson);
+    }
+  });
+  const takenOffered = new Map<string, number>();
+  offeredInRange.forEach((lesson) => {
+    const stats = months.get(monthKey(lesson));
+    if (!stats) {
+      return;
+    }
+    stats.offered++;
+    if (lesson.tutor !== null) {
+      takenOffered.set(stats.month, (takenOffered.get(stats.month) || 0) + 1);
+    }
+  });
+  months.forEach((stats) => {
+    stats.takeRate = stats.offered > 0 ? (takenOffered.get(stats.month) || 0) / stats.offered : null;
+  });
+
+  const families = new Map<SubjectFamily | null, SubjectFamilyStats>();
+  taken.forEach((lesson) => {
+    const family = getSubjectFamily(lesson.subject);
+    const stats = families.get(family) || { family, lessons: 0, hours: 0 };
+    stats.lessons++;
+    stats.hours += hours(lesson);
+    families.set(family, stats);
+  });
+
+  const takenOfferedCount = offeredInRange.filter((lesson) => lesson.tutor !== null).length;
+  return {
+    months: Array.from(months.values()),
+    subjectFamilies: Array.from(families.values()).sort((a, b) => b.hours - a.hours),
+    totalLessons: taken.length,
+    totalHours: taken.reduce((total, lesson) => total + hours(lesson), 0),
+    distinctStudents: new Set(taken.flatMap((lesson) => lesson.students)).size,
+    takeRate: offeredInRange.length > 0 ? takenOfferedCount / offeredInRange.length : null,
+  };
+};
+
+/**
+ * Format an amount of money, e.g. "S$120.00"
+ * @param amount - Amount in the currency's main unit
+ * @param currency - ISO 4217 currency code
+ * @returns Localised amount with its currency symbol
+ */
+export const formatCurrency = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+};
+
+/**
+ * Work out what a lesson pays under a set of rates
+ * @param lesson - The lesson
+ * @param rates - The tutor's pay rates
+ * @returns The statement line for the lesson; completed lessons count as realised
+ */
+export const getLessonPay = (lesson: Lesson, rates: PayRates): EarningsLine => {
+  const subject = lesson.subject.toLowerCase();
+  const subjectRate = rates.subjectRates.find((rate) => subject.includes(rate.match.toLowerCase()));
+  const studentCountRate = rates.studentCountRates
+    .filter((rate) => lesson.students.length >= rate.minStudents)
+    .sort((a, b) => b.minStudents - a.minStudents)[0];
+  const hours = (lesson.durationMinutes || SCHEDULING_POLICY.DEFAULT_LESSON_MINUTES) / 60;
+  const hourlyRate = subjectRate ? subjectRate.hourlyRate : rates.defaultHourlyRate;
+  const hourlyBonus = studentCountRate ? studentCountRate.hourlyBonus : 0;
+
+  return {
+    lesson,
+    hours,
+    hourlyRate,
+    hourlyBonus,
+    amount: Math.round((hourlyRate + hourlyBonus) * hours * 100) / 100,
+    realised: lesson.status === 'Completed',
+  };
+};
+
+/**
+ * Build a tutor's pay statement for a month from their completed and confirmed lessons
+ * Lessons count towards the month they are held in, in their own timezone.
+ * @param lessons - Lessons to pick from (e.g. every lesson in the store)
+ * @param rates - The tutor's pay rates
+ * @param month - Month key in 'yyyy-MM' format
+ * @param tutor - Name of the tutor the statement is for
+ * @returns Lines per lesson, oldest first, with realised and projected totals
+ */
+export const getEarningsStatement = (
+  lessons: Lesson[],
+  rates: PayRates,
+  month: string,
+  tutor: string
+): EarningsStatement => {
+  const lines = lessons
+    .filter(
+      (lesson) =>
+        lesson.tutor === tutor &&
+        (lesson.status === 'Completed' || lesson.status === 'Confirmed') &&
+        format(getLessonWallClock(lesson), DATE_FILTER.MONTH_FORMAT) === month
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((lesson) => getLessonPay(lesson, rates));
+  const realised = lines.filter((line) => line.realised);
+  const sum = (items: EarningsLine[], key: 'amount' | 'hours') =>
+    Math.round(items.reduce((total, line) => total + line[key], 0) * 100) / 100;
+
+  return {
+    month,
+    currency: rates.currency,
+    lines,
+    realisedTotal: sum(realised, 'amount'),
+    projectedTotal: sum(lines, 'amount'),
+    realisedHours: sum(realised, 'hours'),
+    projectedHours: sum(lines, 'hours'),
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * Lightweight markdown rendering for lesson reports
+ *
+ * Supports headings (#, ##, ###), paragraphs, line breaks, bulleted (- or *)
+ * and numbered (1.) lists, **bold**, *italic*, `code` and [links](https://...).
+ * The input is HTML-escaped first and only http(s) and mailto links are kept,
+ * so the output is safe to insert with dangerouslySetInnerHTML.
+ */
+
+/**
+ * Escape the characters that have a meaning in HTML
+ * @param text - Plain text
+ * @returns Text safe to place inside HTML
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render inline markdown in an already escaped line
+ * Code spans are set aside first so their contents are not formatted.
+ */
+const renderInline = (escaped: string): string => {
+  const codeSpans: string[] = [];
+  return escaped
+    .replace(/`([^`]+)`/g, (_, code: string) => {
+      codeSpans.push(`<code>${code}</code>`);
+      return `\u0000${codeSpans.length - 1}\u0000`;
+    })
+    .replace(/\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)]);
+};
+
+/**
+ * Render markdown to HTML
+ * @param markdown - Markdown text written by the tutor
+ * @returns Sanitized HTML
+ */
+export const renderMarkdown = (markdown: string): string => {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br />')}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+      list = null;
+    }
+  };
+
+  escapeHtml(markdown.replace(/\r\n?/g, '\n'))
+    .split('\n')
+    .forEach((line) => {
+      const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+      const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+      const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+
+      if (!line.trim()) {
+        flushParagraph();
+        flushList();
+      } else if (heading) {
+        flushParagraph();
+        flushList();
+        // Report headings sit below the page and section headings
+        const level = heading[1].length + 2;
+        blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      } else if (bullet || numbered) {
+        flushParagraph();
+        const tag = bullet ? 'ul' : 'ol';
+        if (list?.tag !== tag) {
+          flushList();
+          list = { tag, items: [] };
+        }
+        list!.items.push((bullet || numbered)![1]);
+      } else {
+        flushList();
+        paragraph.push(line);
+      }
+    });
+  flushParagraph();
+  flushList();
+
+  return blocks.join('');
+};
@@ -7,6 +7,15 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL?: string;
   readonly VITE_API_TIMEOUT?: string;
   readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_RELEASE_CUTOFF_HOURS?: string;
+  readonly VITE_MOCK_TAKE_CONFLICT_RATE?: string;
+  readonly VITE_DEFAULT_LESSON_MINUTES?: string;
+  readonly VITE_ALLOW_OVERLAP_OVERRIDE?: string;
+  readonly VITE_LESSON_PAGE_SIZE?: string;
+  readonly VITE_MOCK_LESSON_COUNT?: string;
+  readonly VITE_VIRTUALIZE_LESSONS?: string;
+  readonly VITE_LIVE_UPDATES_URL?: string;
+  readonly VITE_REFRESH_INTERVAL_SECONDS?: string;
 }
 
 interface ImportMeta {